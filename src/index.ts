@@ -10,7 +10,8 @@ import groupTemplate from './group.html';
 // import { MacrosParser } from '../../../../macros.js';
 // import { MacroCategory } from '../../../../macros/engine/MacroRegistry';
 
-const { saveSettingsDebounced, event_types, eventSource, chatCompletionSettings, Popup, powerUserSettings: power_user, macros, MacrosParser, substituteParams, variables, resolveVariable, textCompletionSettings: textgenerationwebui_settings, mainApi
+const { saveSettingsDebounced, event_types, eventSource, chatCompletionSettings, Popup, powerUserSettings: power_user, macros, MacrosParser, substituteParams, variables, resolveVariable, textCompletionSettings: textgenerationwebui_settings, mainApi,
+    SlashCommandParser, SlashCommand, SlashCommandArgument, SlashCommandNamedArgument, ARGUMENT_TYPE,
 } = (SillyTavern.getContext() as any);
 
 const MODULE_NAME = 'sliderMacros';
@@ -74,6 +75,7 @@ function debounce<T extends (...args: unknown[]) => void>(fn: T, delay: number):
 // Debounced versions for text input handlers
 const debouncedSaveSettings = debounce(() => saveSettingsDebounced(), DEBOUNCE_DELAY);
 const createDebouncedRender = (settings: ExtensionSettings) => debounce(() => renderCompletionSliders(settings), DEBOUNCE_DELAY);
+const debouncedRenderCompletionSliders = debounce(() => renderCompletionSliders(getSettings()), DEBOUNCE_DELAY);
 
 // ============================================================================
 // Universal Macro System Handler
@@ -397,7 +399,7 @@ async function showMacroSearchPopup(includeVariables = false): Promise<MacroInfo
         const initialHtml = `
             <div class="slider_macros_search_container">
                 <div class="slider_macros_search_description">
-                    <p class="pulse_opacity">This will let you search for existing Macros or Variables and remap them to slider values, even core Sillytavern Macros. This is not recommended for beginners, as it can cause unexpected behavior.<br>This can easily be undone by simply setting a different variable/macro name for the slider and refreshing sillytavern.</p>
+                    <p class="pulse_opacity">This will let you search for existing Macros or Variables and remap them to slider values, even core Sillytavern Macros. This is not recommended for beginners, as it can cause unexpected behavior.<br>This can easily be undone by simply setting a different variable/macro name for the slider, disabling it or deleting it; the original macro is restored automatically.</p>
                 </div>
                 <div class="slider_macros_search_input_row">
                     <input type="text" class="text_pole slider_macros_search_input" placeholder="${placeholder}">
@@ -783,7 +785,7 @@ function syncVariableToSlider(slider: SliderModel): boolean {
             convertedValue = variableValue !== 0;
         }
     } else {
-        // String-based types (MultiSelect, Dropdown, Color)
+        // String-based types (MultiSelect, Dropdown, Color, Text, Textarea)
         convertedValue = String(variableValue);
     }
 
@@ -847,7 +849,39 @@ interface TextCompletionRequestData {
     custom_include_body: string;
 }
 
+interface NumericRange {
+    // Inclusive bounds; an empty bound is open-ended
+    min: string;
+    max: string;
+    text: string;
+}
+
+interface ScheduledChange {
+    turn: number;
+    value: string; // In the same format as /slider-set
+}
+
+interface SliderTrigger {
+    // Comma separated keywords (whole words, case-insensitive) or a /regex/flags
+    pattern: string;
+    // Value to set, in the same format as /slider-set
+    value: string;
+    // When several rules of a slider match, the highest priority wins
+    priority: number;
+    // Number of messages after firing before the rule can fire again
+    cooldown: number;
+}
+
+interface SliderCondition {
+    // getSliderId() of the slider this condition looks at
+    sliderId: string;
+    operator: 'equals' | 'notEquals' | 'greaterThan' | 'lessThan';
+    value: string;
+}
+
 interface SliderModel {
+    // Stable identifier (see getSliderId). Doesn't change with the mode, macro name or variable
+    id: string;
     name: string;
     property: string;
     type: string;
@@ -855,10 +889,28 @@ interface SliderModel {
     max: string;
     step: string;
     value: number | string | boolean;
+    // Value the slider returns to on reset (same representation as value)
+    defaultValue: number | string | boolean;
     enabled: boolean;
     options: string[];
-    // Dropdown type fields
+    // Dropdown type fields (also the option list for Tags)
     dropdownOptions: DropdownOption[];
+    // Tags type fields (value holds the selected option keys, one per line)
+    tagSeparator: string;
+    tagLastSeparator: string; // Separator before the last tag ('' = same as tagSeparator)
+    tagPrefix: string; // Wraps the joined list; nothing is output when no tag is selected
+    tagSuffix: string;
+    // Numeric output formatting fields
+    outputDecimals: string; // Fixed number of decimals ('' = as is)
+    outputPercent: boolean; // Output value * 100 followed by %
+    outputPrefix: string;
+    outputSuffix: string;
+    valueMap: NumericRange[]; // First matching range replaces the number with its text
+    // Numeric turn-based automation fields
+    behavior: 'none' | 'drift' | 'decay' | 'randomWalk';
+    behaviorEvery: number; // Run the behavior every N turns
+    behaviorAmount: string; // Step size ('' = slider step); negative drifts down
+    schedule: ScheduledChange[]; // Jump to a value at a given turn
     // Color type fields
     colorFormat: 'hex' | 'rgb' | 'hsv';
     // Checkbox type fields
@@ -871,7 +923,21 @@ interface SliderModel {
     syncVariable: string;
     syncScope: 'local' | 'global';
     syncForce: boolean; // Force write (create variable if not exists) and read (sync slider from variable on load)
-    sliderMode: 'macro' | 'variable'; // 'macro' = register as macro (default), 'variable' = only affect variable
+    sliderMode: 'macro' | 'variable' | 'parameter'; // 'macro' = register as macro (default), 'variable' = only affect variable, 'parameter' = send as API request parameter named by property
+    // Computed type fields
+    expression: string;
+    // Conditional visibility fields
+    conditions: SliderCondition[];
+    conditionMatch: 'all' | 'any';
+    conditionEffect: 'hide' | 'disable'; // What happens to the control while the conditions aren't met
+    emptyWhenHidden: boolean; // Macro outputs an empty string while the conditions aren't met
+    // Rules that set the slider when a user message matches
+    triggers: SliderTrigger[];
+    // Roll per generation fields (Numeric, Boolean, Checkbox, MultiSelect, Dropdown)
+    randomize: boolean; // Roll a random value at the start of every generation
+    randomWeights: string; // Comma separated weights: one per option, or per equal band of min–max for Numeric ('' = uniform)
+    randomChance: number; // Probability of true for Boolean/Checkbox
+    randomShow: boolean; // Write the rolled value back to the slider instead of only using it for the generation
 }
 
 interface SliderGroup {
@@ -881,16 +947,90 @@ interface SliderGroup {
     order: number;
 }
 
+type ValueScope = 'global' | 'chat' | 'character';
+
+interface ValueSnapshot {
+    name: string;
+    // Slider values keyed by slider id; sliders missing from the snapshot fall back to their defaults
+    values: Record<string, number | string | boolean>;
+}
+
+interface GenerationStamp {
+    collection: string;
+    // getSliderId() → value for every slider, in the same shape as ValueSnapshot.values
+    values: Record<string, number | string | boolean>;
+    // Resolved outputs for display, in slider order
+    outputs: { name: string; output: string }[];
+    // Set for swipes generated by a parameter sweep, e.g. "Temperature = 0.5"
+    label?: string;
+}
+
+interface DirectiveSettings {
+    enabled: boolean; // Apply slider directives found in received messages
+    strip: boolean; // Remove the directives from the message text
+}
+
+interface PromptInjection {
+    enabled: boolean;
+    position: 'before_prompt' | 'in_prompt' | 'in_chat';
+    depth: number; // Only used for in_chat
+    role: 'system' | 'user' | 'assistant'; // Only used for in_chat
+    template: string; // {{sliders}} is replaced with one "Name: output" line per slider macro
+}
+
+type BindingType = 'character' | 'group' | 'persona' | 'profile';
+
+interface CollectionBinding {
+    type: BindingType;
+    // Character avatar file, group id, persona name or connection profile id
+    id: string;
+    // Display name when the binding was made
+    name: string;
+}
+
+// APIs whose presets can be bound: Chat Completion and Text Completion keep separate preset lists
+type PresetApi = 'openai' | 'textgenerationwebui';
+
+interface PresetBinding {
+    api: PresetApi;
+    name: string;
+}
+
 interface SliderCollection {
     active: boolean;
     name: string;
     sliders: SliderModel[];
-    presets: string[];
+    presets: PresetBinding[];
     groups: SliderGroup[];
+    // Where slider values are remembered: extension settings (global), chat metadata, or character card
+    valueScope: ValueScope;
+    // Global slider values by slider id, kept aside while valueScope is per chat/character (the sliders then hold the scoped values)
+    globalValues: SliderValueMap;
+    // Named sets of slider values that can be switched between from the drawer
+    snapshots: ValueSnapshot[];
+    // Optional block of slider values injected into the prompt as an extension prompt
+    injection: PromptInjection;
+    // Lets the model change slider values through directives in its replies
+    directives: DirectiveSettings;
+    // Characters, group chats, personas and connection profiles that switch to this collection
+    bindings: CollectionBinding[];
+}
+
+interface TrashItem {
+    type: 'collection' | 'group' | 'slider';
+    // Collection a group or slider was deleted from (by name), or the deleted collection's own name
+    collection: string;
+    deletedAt: number; // Timestamp, used for expiry
+    item: SliderCollection | SliderGroup | SliderModel;
+    // getSliderId() of the sliders that were in a deleted group, so restoring the group regroups them
+    groupedSliders?: string[];
 }
 
 interface ExtensionSettings {
     collections: SliderCollection[];
+    // Deleted collections, groups and sliders, restorable until they expire
+    trash: TrashItem[];
+    trashRetentionDays: number; // 0 = keep until deleted by hand
     // Allow additional properties
     [key: string]: unknown;
 }
@@ -905,14 +1045,41 @@ const defaultSettings: Readonly<ExtensionSettings> = Object.freeze({
         name: 'Default',
         sliders: [],
         presets: [],
+        valueScope: 'global' as ValueScope,
+        globalValues: {},
+        snapshots: [],
+        injection: createDefaultInjection(),
+        directives: { enabled: false, strip: true },
+        bindings: [],
         groups: [],
     }],
+    trash: [],
+    trashRetentionDays: 30,
 });
 
 function generateGroupId(): string {
     return 'group_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9);
 }
 
+function generateSliderId(): string {
+    return 'slider_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9);
+}
+
+/**
+ * Gives every slider that shares its id with an earlier slider in the list a fresh id.
+ * The first one keeps the id, so saved references stay with it.
+ * @param sliders - The sliders of one collection
+ */
+function assignUniqueSliderIds(sliders: SliderModel[]): void {
+    const seen = new Set<string>();
+    sliders.forEach((slider) => {
+        if (seen.has(slider.id)) {
+            slider.id = generateSliderId();
+        }
+        seen.add(slider.id);
+    });
+}
+
 /**
  * Normalizes a slider object by ensuring all fields exist with sensible defaults.
  * This handles backward compatibility for sliders created in older extension versions
@@ -921,6 +1088,7 @@ function generateGroupId(): string {
  * @returns The same slider object, mutated in-place with all missing fields filled in
  */
 function normalizeSlider(slider: Partial<SliderModel>): SliderModel {
+    if (!slider.id) slider.id = getLegacySliderId(slider);
     if (slider.name === undefined) slider.name = '';
     if (slider.property === undefined) slider.property = '';
     if (slider.type === undefined) slider.type = 'Numeric';
@@ -928,9 +1096,23 @@ function normalizeSlider(slider: Partial<SliderModel>): SliderModel {
     if (slider.max === undefined) slider.max = '1';
     if (slider.step === undefined) slider.step = '0.01';
     if (slider.value === undefined) slider.value = 0;
+    if (slider.defaultValue === undefined) slider.defaultValue = getMigratedDefaultValue(slider as SliderModel);
     if (slider.enabled === undefined) slider.enabled = true;
     if (!slider.options) slider.options = [];
     if (!slider.dropdownOptions) slider.dropdownOptions = [];
+    if (slider.tagSeparator === undefined) slider.tagSeparator = ', ';
+    if (slider.tagLastSeparator === undefined) slider.tagLastSeparator = '';
+    if (slider.tagPrefix === undefined) slider.tagPrefix = '';
+    if (slider.tagSuffix === undefined) slider.tagSuffix = '';
+    if (slider.outputDecimals === undefined) slider.outputDecimals = '';
+    if (slider.outputPercent === undefined) slider.outputPercent = false;
+    if (slider.outputPrefix === undefined) slider.outputPrefix = '';
+    if (slider.outputSuffix === undefined) slider.outputSuffix = '';
+    if (!slider.valueMap) slider.valueMap = [];
+    if (!slider.behavior) slider.behavior = 'none';
+    if (!slider.behaviorEvery) slider.behaviorEvery = 1;
+    if (slider.behaviorAmount === undefined) slider.behaviorAmount = '';
+    if (!slider.schedule) slider.schedule = [];
     if (!slider.colorFormat) slider.colorFormat = 'hex';
     if (!slider.checkboxTrueValue) slider.checkboxTrueValue = 'true';
     if (!slider.checkboxFalseValue) slider.checkboxFalseValue = 'false';
@@ -941,9 +1123,32 @@ function normalizeSlider(slider: Partial<SliderModel>): SliderModel {
     if (slider.syncScope === undefined) slider.syncScope = 'local';
     if (slider.syncForce === undefined) slider.syncForce = false;
     if (slider.sliderMode === undefined) slider.sliderMode = 'macro';
+    if (slider.expression === undefined) slider.expression = '';
+    if (!slider.conditions) slider.conditions = [];
+    if (!slider.triggers) slider.triggers = [];
+    if (!slider.conditionMatch) slider.conditionMatch = 'all';
+    if (!slider.conditionEffect) slider.conditionEffect = 'hide';
+    if (slider.emptyWhenHidden === undefined) slider.emptyWhenHidden = false;
+    if (slider.randomize === undefined) slider.randomize = false;
+    if (slider.randomWeights === undefined) slider.randomWeights = '';
+    if (slider.randomChance === undefined) slider.randomChance = 0.5;
+    if (slider.randomShow === undefined) slider.randomShow = false;
     return slider as SliderModel;
 }
 
+/**
+ * Works out a default value for a slider saved before sliders had an explicit default.
+ * Boolean, Checkbox and Color sliders used their value as the default; other types get their type fallback.
+ * @param slider - The slider to migrate
+ * @returns The default value to store on the slider
+ */
+function getMigratedDefaultValue(slider: SliderModel): SliderModel['value'] {
+    if (['Boolean', 'Checkbox', 'Color'].includes(slider.type) && slider.value !== undefined) {
+        return slider.value;
+    }
+    return getTypeFallbackValue(slider);
+}
+
 /**
  * Normalizes a collection object by ensuring all fields exist with sensible defaults.
  * Also normalizes all sliders within the collection.
@@ -956,6 +1161,12 @@ function normalizeCollection(collection: Partial<SliderCollection>): SliderColle
     if (!collection.sliders) collection.sliders = [];
     if (!collection.presets) collection.presets = [];
     if (!collection.groups) collection.groups = [];
+    if (!collection.valueScope) collection.valueScope = 'global';
+    if (!collection.globalValues) collection.globalValues = {};
+    if (!collection.snapshots) collection.snapshots = [];
+    collection.injection = { ...createDefaultInjection(), ...collection.injection };
+    collection.directives = { enabled: false, strip: true, ...collection.directives };
+    if (!collection.bindings) collection.bindings = [];
     // Normalize each slider in the collection
     collection.sliders.forEach(normalizeSlider);
     // Normalize group orders
@@ -976,7 +1187,8 @@ function getNextOrder(collection: SliderCollection): number {
  * Checks if a slider can be rendered in the completion panel.
  * A slider is renderable if:
  * - It has a name and is enabled
- * - AND either has a macro property (macro mode) OR has a sync variable configured (variable mode)
+ * - AND it is not a Computed slider (those have no control of their own)
+ * - AND either has a macro property / parameter name (macro or parameter mode) OR has a sync variable configured (variable mode)
  * @param slider - The slider to check
  * @returns True if the slider should be rendered
  */
@@ -985,7 +1197,11 @@ function isSliderRenderable(slider: SliderModel): boolean {
         return false;
     }
 
-    // Macro mode: needs a property (macro name)
+    if (slider.type === 'Computed') {
+        return false;
+    }
+
+    // Macro and parameter mode: needs a property (macro or parameter name)
     if (slider.sliderMode !== 'variable' && slider.property) {
         return true;
     }
@@ -1004,18 +1220,107 @@ function isSliderRenderable(slider: SliderModel): boolean {
 }
 
 /**
- * Gets a unique identifier for a slider (used for DOM element IDs).
- * For macro mode, uses the property name. For variable mode, uses the sync variable.
+ * Gets a unique identifier for a slider (used for DOM element IDs, and to refer to the slider from conditions,
+ * snapshots, scoped values and trigger cooldowns).
  * @param slider - The slider to get an ID for
  * @returns A unique identifier string
  */
 function getSliderId(slider: SliderModel): string {
+    return slider.id;
+}
+
+/**
+ * Derives the identifier sliders had before it was stored on them: the property name in macro mode, the sync variable
+ * in variable mode, the parameter name in parameter mode. Used to give older sliders (and imported files) the id their
+ * saved references use.
+ * @param slider - The slider to derive an ID for
+ * @returns The derived identifier
+ */
+function getLegacySliderId(slider: Partial<SliderModel>): string {
     if (slider.sliderMode === 'variable' && slider.syncVariable) {
         return 'slider_var_' + slider.syncVariable + '_' + (slider.syncScope || 'local');
     }
+    if (slider.sliderMode === 'parameter') {
+        return 'slider_param_' + slider.property;
+    }
     return 'slider_macro_' + slider.property;
 }
 
+/**
+ * Evaluates a single visibility condition against the current value of the slider it references.
+ * Equality compares against both the stored value and the macro output (case-insensitive),
+ * so "true" matches a Boolean slider and a Dropdown can be matched by key or by output.
+ * @param collection - The collection containing the referenced slider
+ * @param condition - The condition to evaluate
+ * @returns True if the condition holds; conditions referencing a missing slider never hold
+ */
+function evaluateSliderCondition(collection: SliderCollection, condition: SliderCondition): boolean {
+    const target = collection.sliders.find(s => getSliderId(s) === condition.sliderId);
+    if (!target) {
+        return false;
+    }
+
+    const expected = condition.value.trim().toLowerCase();
+    const rawValue = String(target.value).toLowerCase();
+    const outputValue = createSliderValueHandler(target, collection)().trim().toLowerCase();
+    // Tags sliders also match when the expected value is one of the selected tags
+    const tags = target.type === 'Tags' ? getSelectedTags(target).map(t => t.toLowerCase()) : [];
+
+    switch (condition.operator) {
+        case 'equals':
+            return rawValue === expected || outputValue === expected || tags.includes(expected);
+        case 'notEquals':
+            return rawValue !== expected && outputValue !== expected && !tags.includes(expected);
+        case 'greaterThan':
+            return Number(target.value) > Number(condition.value);
+        case 'lessThan':
+            return Number(target.value) < Number(condition.value);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Checks whether a slider's visibility conditions are met. Sliders without conditions always pass.
+ * @param collection - The collection containing the slider
+ * @param slider - The slider to check
+ * @returns True if the slider should be active
+ */
+function isSliderConditionMet(collection: SliderCollection, slider: SliderModel): boolean {
+    const conditions = (slider.conditions || []).filter(c => c.sliderId);
+    if (conditions.length === 0) {
+        return true;
+    }
+    return slider.conditionMatch === 'any'
+        ? conditions.some(c => evaluateSliderCondition(collection, c))
+        : conditions.every(c => evaluateSliderCondition(collection, c));
+}
+
+/**
+ * Checks if a slider should appear in the completion panel: it must be renderable and not hidden by its conditions.
+ * Sliders whose condition effect is 'disable' still appear (greyed out).
+ * @param collection - The collection containing the slider
+ * @param slider - The slider to check
+ * @returns True if the slider should be rendered
+ */
+function isSliderShown(collection: SliderCollection, slider: SliderModel): boolean {
+    if (!isSliderRenderable(slider)) {
+        return false;
+    }
+    return slider.conditionEffect === 'disable' || isSliderConditionMet(collection, slider);
+}
+
+/**
+ * Checks whether any slider in the collection has a condition referencing the given slider.
+ * @param collection - The collection to search
+ * @param slider - The potentially referenced slider
+ * @returns True if changing this slider can change another slider's visibility
+ */
+function hasConditionalDependents(collection: SliderCollection, slider: SliderModel): boolean {
+    const id = getSliderId(slider);
+    return collection.sliders.some(s => s !== slider && (s.conditions || []).some(c => c.sliderId === id));
+}
+
 export function getSettings(): ExtensionSettings {
     const context = SillyTavern.getContext();
     const globalSettings = context.extensionSettings as object as GlobalSettings;
@@ -1028,7 +1333,8 @@ export function getSettings(): ExtensionSettings {
     // Ensure all default keys exist (helpful after updates)
     for (const key in defaultSettings) {
         if (globalSettings[MODULE_NAME][key] === undefined) {
-            globalSettings[MODULE_NAME][key] = defaultSettings[key];
+            // Cloned so arrays added later (e.g. the trash) don't share the frozen defaults' instances
+            globalSettings[MODULE_NAME][key] = structuredClone(defaultSettings[key]);
         }
     }
 
@@ -1050,6 +1356,55 @@ export function getSettings(): ExtensionSettings {
             collection.groups = [];
         }
 
+        // Migration: Add valueScope to collections that don't have it
+        if (!collection.valueScope) {
+            collection.valueScope = 'global';
+        }
+
+        // Migration: Add globalValues to collections that don't have it. For scoped collections the current values are the best guess
+        if (!collection.globalValues) {
+            collection.globalValues = collection.valueScope === 'global' ? {} : getCollectionValueMap(collection);
+        }
+
+        // Migration: Add snapshots to collections that don't have it
+        if (!collection.snapshots) {
+            collection.snapshots = [];
+        }
+
+        // Migration: Add prompt injection settings to collections that don't have it
+        if (!collection.injection) {
+            collection.injection = createDefaultInjection();
+        }
+
+        // Migration: Add directive settings to collections that don't have it
+        if (!collection.directives) {
+            collection.directives = { enabled: false, strip: true };
+        }
+
+        // Migration: Add character/group/persona/profile bindings to collections that don't have it
+        if (!collection.bindings) {
+            collection.bindings = [];
+        }
+
+        // Migration: Persona bindings used to be keyed by persona name. Switch them to the avatar when the name is unambiguous
+        const personas: Record<string, string> = power_user.personas ?? {};
+        for (const binding of collection.bindings) {
+            if (binding.type !== 'persona' || binding.id in personas) {
+                continue;
+            }
+            const avatars = Object.keys(personas).filter(avatar => personas[avatar] === binding.id);
+            if (avatars.length === 1) {
+                binding.id = avatars[0];
+            }
+        }
+
+        // Migration: Preset bindings used to be bare names shared by both APIs. Bind them for both to keep them matching as before
+        if ((collection.presets as (PresetBinding | string)[]).some(preset => typeof preset === 'string')) {
+            collection.presets = (collection.presets as (PresetBinding | string)[]).flatMap(preset => typeof preset === 'string'
+                ? [{ api: 'openai' as const, name: preset }, { api: 'textgenerationwebui' as const, name: preset }]
+                : [preset]);
+        }
+
         // Migration: Add order to groups that don't have it
         let maxGroupOrder = -1;
         for (const group of collection.groups) {
@@ -1095,7 +1450,62 @@ export function getSettings(): ExtensionSettings {
             if (!slider.sliderMode) {
                 slider.sliderMode = 'macro';
             }
+            // Migration: Store the slider id, derived the old way so saved references (conditions, snapshots, scoped values) still match
+            if (!slider.id) {
+                slider.id = getLegacySliderId(slider);
+            }
+            // Migration: Add explicit default value
+            if (slider.defaultValue === undefined) {
+                slider.defaultValue = getMigratedDefaultValue(slider);
+            }
+            // Migration: Add numeric output formatting fields
+            if (!slider.valueMap) {
+                slider.outputDecimals = '';
+                slider.outputPercent = false;
+                slider.outputPrefix = '';
+                slider.outputSuffix = '';
+                slider.valueMap = [];
+            }
+            // Migration: Add tags joining fields
+            if (slider.tagSeparator === undefined) {
+                slider.tagSeparator = ', ';
+                slider.tagLastSeparator = '';
+                slider.tagPrefix = '';
+                slider.tagSuffix = '';
+            }
+            // Migration: Add computed expression field
+            if (slider.expression === undefined) {
+                slider.expression = '';
+            }
+            // Migration: Add conditional visibility fields
+            if (!slider.conditions) {
+                slider.conditions = [];
+                slider.conditionMatch = 'all';
+                slider.conditionEffect = 'hide';
+                slider.emptyWhenHidden = false;
+            }
+            // Migration: Add trigger rules
+            if (!slider.triggers) {
+                slider.triggers = [];
+            }
+            // Migration: Add turn-based automation fields
+            if (!slider.behavior) {
+                slider.behavior = 'none';
+                slider.behaviorEvery = 1;
+                slider.behaviorAmount = '';
+                slider.schedule = [];
+            }
+            // Migration: Add roll per generation fields
+            if (slider.randomize === undefined) {
+                slider.randomize = false;
+                slider.randomWeights = '';
+                slider.randomChance = 0.5;
+                slider.randomShow = false;
+            }
         }
+
+        // Migration: Sliders sharing a derived id (duplicates, blank macro names) each need their own
+        assignUniqueSliderIds(collection.sliders);
     }
 
     return settings;
@@ -1109,11 +1519,23 @@ function getUIElements() {
         collections: document.getElementById('slider_macros_collections') as HTMLSelectElement,
         createCollection: document.getElementById('slider_macros_create_collection') as HTMLDivElement,
         deleteCollection: document.getElementById('slider_macros_delete_collection') as HTMLDivElement,
+        recycleBin: document.getElementById('slider_macros_recycle_bin') as HTMLDivElement,
+        embedCollection: document.getElementById('slider_macros_embed_collection') as HTMLDivElement,
         bindToPreset: document.getElementById('slider_macros_bind_to_preset') as HTMLDivElement,
+        bindingReason: document.getElementById('slider_macros_binding_reason') as HTMLDivElement,
         hint: document.getElementById('slider_macros_hint') as HTMLDivElement,
         importFile: document.getElementById('slider_macros_import_file') as HTMLInputElement,
         importCollection: document.getElementById('slider_macros_import_collection') as HTMLDivElement,
         exportCollection: document.getElementById('slider_macros_export_collection') as HTMLDivElement,
+        valueScope: document.getElementById('slider_macros_value_scope') as HTMLSelectElement,
+        injectionEnabled: document.getElementById('slider_macros_injection_enabled') as HTMLInputElement,
+        injectionConfig: document.getElementById('slider_macros_injection_config') as HTMLDivElement,
+        injectionPosition: document.getElementById('slider_macros_injection_position') as HTMLSelectElement,
+        injectionDepth: document.getElementById('slider_macros_injection_depth') as HTMLInputElement,
+        injectionRole: document.getElementById('slider_macros_injection_role') as HTMLSelectElement,
+        injectionTemplate: document.getElementById('slider_macros_injection_template') as HTMLTextAreaElement,
+        directivesEnabled: document.getElementById('slider_macros_directives_enabled') as HTMLInputElement,
+        directivesStrip: document.getElementById('slider_macros_directives_strip') as HTMLInputElement,
     };
 }
 
@@ -1133,15 +1555,81 @@ export function addSettingsControls(settings: ExtensionSettings): void {
     elements.createGroup.addEventListener('click', createGroup);
     elements.createCollection.addEventListener('click', createCollection);
     elements.deleteCollection.addEventListener('click', deleteCollection);
-    elements.bindToPreset.addEventListener('click', bindToPreset);
+    elements.recycleBin.addEventListener('click', () => showRecycleBin(getSettings()));
+    elements.embedCollection.addEventListener('click', () => embedActiveCollection(getSettings()));
+    elements.bindToPreset.addEventListener('click', () => showBindingPopup(getSettings()));
     elements.collections.addEventListener('change', (e) => {
-        const selectedName = elements.collections.value;
-        settings.collections.forEach((collection) => {
-            collection.active = collection.name === selectedName;
-        });
-        saveSettingsDebounced();
+        activateCollection(settings, settings.collections.find(c => c.name === elements.collections.value));
+    });
+    elements.valueScope.addEventListener('change', () => {
+        const activeCollection = settings.collections.find(c => c.active);
+        if (!activeCollection) {
+            return;
+        }
+        const previousScope = activeCollection.valueScope;
+        activeCollection.valueScope = elements.valueScope.value as ValueScope;
+        if (activeCollection.valueScope === 'global') {
+            // Back to the global values that were kept aside while the values were scoped
+            activeCollection.sliders.forEach((slider) => {
+                const key = getSliderId(slider);
+                if (Object.prototype.hasOwnProperty.call(activeCollection.globalValues, key)) {
+                    slider.value = activeCollection.globalValues[key];
+                }
+            });
+            commitSliderChanges(settings, activeCollection.sliders);
+        } else {
+            if (previousScope === 'global') {
+                activeCollection.globalValues = getCollectionValueMap(activeCollection);
+            }
+            restoreScopedValues(settings);
+            // Also seeds the current chat/character with the values so switching away and back keeps them
+            commitSliderChanges(settings, activeCollection.sliders);
+        }
         renderSliderConfigs(settings);
     });
+    const onInjectionChange = (update: (injection: PromptInjection) => void) => {
+        const activeCollection = settings.collections.find(c => c.active);
+        if (!activeCollection) {
+            return;
+        }
+        update(activeCollection.injection);
+        updateInjectionControls(activeCollection);
+        updatePromptInjection(settings);
+        saveSettingsDebounced();
+    };
+    elements.injectionEnabled.addEventListener('change', () => onInjectionChange((injection) => {
+        injection.enabled = elements.injectionEnabled.checked;
+    }));
+    elements.injectionPosition.addEventListener('change', () => onInjectionChange((injection) => {
+        injection.position = elements.injectionPosition.value as PromptInjection['position'];
+    }));
+    elements.injectionDepth.addEventListener('input', () => onInjectionChange((injection) => {
+        injection.depth = Math.max(0, parseInt(elements.injectionDepth.value, 10) || 0);
+    }));
+    elements.injectionRole.addEventListener('change', () => onInjectionChange((injection) => {
+        injection.role = elements.injectionRole.value as PromptInjection['role'];
+    }));
+    elements.injectionTemplate.addEventListener('keydown', (e) => {
+        // Prevent Enter key from being captured by parent handlers (e.g., SillyTavern's chat submit)
+        if (e.key === 'Enter') {
+            e.stopPropagation();
+        }
+    });
+    elements.injectionTemplate.addEventListener('input', () => onInjectionChange((injection) => {
+        injection.template = elements.injectionTemplate.value;
+    }));
+    const onDirectivesChange = () => {
+        const activeCollection = settings.collections.find(c => c.active);
+        if (!activeCollection) {
+            return;
+        }
+        activeCollection.directives.enabled = elements.directivesEnabled.checked;
+        activeCollection.directives.strip = elements.directivesStrip.checked;
+        updateDirectiveControls(activeCollection);
+        saveSettingsDebounced();
+    };
+    elements.directivesEnabled.addEventListener('change', onDirectivesChange);
+    elements.directivesStrip.addEventListener('change', onDirectivesChange);
     elements.importCollection.addEventListener('click', async () => {
         elements.importFile.click();
     });
@@ -1150,19 +1638,15 @@ export function addSettingsControls(settings: ExtensionSettings): void {
         if (!activeCollection) {
             return;
         }
-        const fileName = activeCollection.name + '.json';
-        const exportData = {
-            sliders: activeCollection.sliders,
-            groups: activeCollection.groups,
-        };
-        const fileContent = JSON.stringify(exportData, null, 4);
-        const blob = new Blob([fileContent], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        a.click();
-        URL.revokeObjectURL(url);
+        const choice = await Popup.show.confirm('Export Collection', `Export "${activeCollection.name}" as:`, {
+            okButton: 'JSON',
+            cancelButton: 'Cancel',
+            customButtons: [{ text: 'YAML', result: EXPORT_AS_YAML }],
+        });
+        if (!choice) {
+            return;
+        }
+        exportCollectionFile(activeCollection, choice === EXPORT_AS_YAML ? 'yaml' : 'json');
     });
     elements.importFile.addEventListener('change', (e) => {
         const file = elements.importFile.files?.[0];
@@ -1171,32 +1655,14 @@ export function addSettingsControls(settings: ExtensionSettings): void {
         }
         const reader = new FileReader();
         reader.onload = (event) => {
-            try {
-                const fileName = file.name.split('.').shift() || 'imported';
-                const fileContent = event.target?.result as string;
-                const parsed = JSON.parse(fileContent);
-
-                // Support both old format (plain array of sliders) and new envelope format ({ sliders, groups })
-                let sliders: Partial<SliderModel>[];
-                let groups: SliderGroup[] = [];
-
-                if (Array.isArray(parsed)) {
-                    // Old format: plain array of sliders
-                    sliders = parsed;
-                } else if (parsed && Array.isArray(parsed.sliders)) {
-                    // New envelope format: { sliders: [...], groups: [...] }
-                    sliders = parsed.sliders;
-                    groups = Array.isArray(parsed.groups) ? parsed.groups : [];
-                } else {
-                    toastr.error('Invalid JSON file format.');
-                    return;
-                }
-
-                processImport(fileName, sliders, groups, settings);
-            } catch {
-                toastr.error('Failed to parse JSON file.');
+            const fileName = file.name.split('.').shift() || 'imported';
+            const fileContent = event.target?.result as string;
+            const { data, errors } = parseCollectionFile(fileContent, file.name);
+            if (!data) {
+                showImportErrors(file.name, errors);
                 return;
             }
+            processImport(data.name || fileName, data, settings);
         };
         reader.readAsText(file);
         elements.importFile.value = '';
@@ -1206,36 +1672,111 @@ export function addSettingsControls(settings: ExtensionSettings): void {
     renderSliderConfigs(settings);
 }
 
-async function processImport(fileName: string, parsedSliders: Partial<SliderModel>[], parsedGroups: SliderGroup[], settings: ExtensionSettings): Promise<void> {
-    const newName = await Popup.show.input('Import Collection', 'Enter the name of the new collection:', fileName);
-    if (!newName) {
-        return;
+/**
+ * Shows a collection's prompt injection settings in the settings panel.
+ * Depth and role only apply to in-chat injection, so they are hidden for the other positions.
+ * @param collection - The collection whose settings to show
+ */
+function updateInjectionControls(collection: SliderCollection): void {
+    const elements = getUIElements();
+    const injection = collection.injection;
+    elements.injectionEnabled.checked = injection.enabled;
+    elements.injectionConfig.style.display = injection.enabled ? 'block' : 'none';
+    elements.injectionPosition.value = injection.position;
+    elements.injectionRole.value = injection.role;
+    // Don't overwrite text fields while they are being typed in
+    if (document.activeElement !== elements.injectionDepth) {
+        elements.injectionDepth.value = String(injection.depth);
     }
-
-    const existingCollection = settings.collections.find(c => c.name === newName);
-    if (existingCollection) {
-        toastr.warning('Collection with this name already exists.');
-        return;
+    if (document.activeElement !== elements.injectionTemplate) {
+        elements.injectionTemplate.value = injection.template;
     }
+    elements.injectionDepth.style.display = injection.position === 'in_chat' ? '' : 'none';
+    elements.injectionRole.style.display = injection.position === 'in_chat' ? '' : 'none';
+}
 
+/**
+ * Shows a collection's directive settings in the settings panel.
+ * @param collection - The collection whose settings to show
+ */
+function updateDirectiveControls(collection: SliderCollection): void {
+    const elements = getUIElements();
+    elements.directivesEnabled.checked = collection.directives.enabled;
+    elements.directivesStrip.checked = collection.directives.strip;
+    (elements.directivesStrip.closest('label') as HTMLElement).style.display = collection.directives.enabled ? '' : 'none';
+}
+
+/**
+ * Builds a new, active collection from the contents of a collection file.
+ * @param name - Name of the collection
+ * @param data - The validated contents of the file
+ * @returns The collection (not yet added to the settings)
+ */
+function buildCollectionFromFile(name: string, data: CollectionFileData): SliderCollection {
     // Normalize all imported sliders to ensure they have every required field
-    const normalizedSliders = parsedSliders.map(s => normalizeSlider(s));
+    const normalizedSliders = data.sliders.map(s => normalizeSlider(structuredClone(s)));
+    assignUniqueSliderIds(normalizedSliders);
 
     // Strip groupId references that point to non-existent groups
-    const validGroupIds = new Set(parsedGroups.map(g => g.id));
+    const validGroupIds = new Set(data.groups.map(g => g.id));
     for (const slider of normalizedSliders) {
         if (slider.groupId && !validGroupIds.has(slider.groupId)) {
             slider.groupId = null;
         }
     }
 
-    const newCollection: SliderCollection = {
+    return {
         active: true,
-        name: newName,
+        name,
         sliders: normalizedSliders,
         presets: [],
-        groups: parsedGroups,
+        valueScope: 'global',
+        globalValues: {},
+        snapshots: structuredClone(data.snapshots),
+        injection: { ...createDefaultInjection(), ...data.injection },
+        directives: { enabled: false, strip: true, ...data.directives },
+        bindings: [],
+        groups: structuredClone(data.groups),
     };
+}
+
+/**
+ * Imports a collection file, either as a new collection (asking for its name) or merged into the active one.
+ * @param fileName - Suggested collection name
+ * @param data - The validated contents of the file
+ * @param settings - Extension settings containing slider collections
+ */
+async function processImport(fileName: string, data: CollectionFileData, settings: ExtensionSettings): Promise<void> {
+    const { sliders: parsedSliders } = data;
+
+    const activeCollection = settings.collections.find(c => c.active);
+    if (activeCollection) {
+        const choice = await Popup.show.confirm('Import Collection', `Import the ${parsedSliders.length} slider(s) as a new collection, or merge them into the current collection "${activeCollection.name}"?`, {
+            okButton: 'New collection',
+            cancelButton: 'Cancel',
+            customButtons: [{ text: 'Merge into current', result: IMPORT_AS_MERGE }],
+        });
+        if (!choice) {
+            return;
+        }
+        if (choice === IMPORT_AS_MERGE) {
+            await mergeImport(settings, activeCollection, data);
+            return;
+        }
+    }
+
+    const newName = await Popup.show.input('Import Collection', 'Enter the name of the new collection:', fileName);
+    if (!newName) {
+        return;
+    }
+
+    const existingCollection = settings.collections.find(c => c.name === newName);
+    if (existingCollection) {
+        toastr.warning('Collection with this name already exists.');
+        return;
+    }
+
+    const newCollection = buildCollectionFromFile(newName, data);
 
     settings.collections.forEach((collection) => {
         collection.active = false;
@@ -1246,6 +1787,24 @@ async function processImport(fileName: string, parsedSliders: Partial<SliderMode
     toastr.success(`Imported ${parsedSliders.length} sliders into collection "${newName}".`);
 }
 
+/**
+ * Makes a collection the active one. Its chat/character values are restored and committed like any value change,
+ * so synced variables, macros and the prompt injection follow the switch.
+ * @param settings - Extension settings containing slider collections
+ * @param collection - The collection to activate
+ */
+function activateCollection(settings: ExtensionSettings, collection: SliderCollection | undefined): void {
+    if (!collection) {
+        return;
+    }
+    settings.collections.forEach((c) => {
+        c.active = c === collection;
+    });
+    restoreScopedValues(settings);
+    commitSliderChanges(settings, collection.sliders);
+    renderSliderConfigs(settings);
+}
+
 async function deleteCollection(): Promise<void> {
     const settings = getSettings();
     if (settings.collections.length === 1) {
@@ -1256,18 +1815,14 @@ async function deleteCollection(): Promise<void> {
     if (!activeCollection) {
         return;
     }
-    const confirm = await Popup.show.confirm('Delete Collection', `Are you sure you want to delete the collection "${activeCollection.name}"?`);
+    const confirm = await Popup.show.confirm('Delete Collection', `Move the collection "${activeCollection.name}" to the recycle bin?`);
     if (!confirm) {
         return;
     }
     const collectionIndex = settings.collections.indexOf(activeCollection);
     settings.collections.splice(collectionIndex, 1);
-    const firstCollection = settings.collections[0];
-    if (firstCollection) {
-        firstCollection.active = true;
-    }
-    saveSettingsDebounced();
-    renderSliderConfigs(settings);
+    moveToTrash(settings, { type: 'collection', collection: activeCollection.name, item: activeCollection });
+    activateCollection(settings, settings.collections[0]);
 }
 
 async function createCollection(): Promise<void> {
@@ -1289,83 +1844,415 @@ async function createCollection(): Promise<void> {
         name,
         sliders: [],
         presets: [],
+        valueScope: 'global',
+        globalValues: {},
+        snapshots: [],
+        injection: createDefaultInjection(),
+        directives: { enabled: false, strip: true },
+        bindings: [],
         groups: [],
     });
     saveSettingsDebounced();
     renderSliderConfigs(settings);
 }
 
-// This function is used to bind the active collection to a preset.
-
-function bindToPreset(): void {
-    const settings = getSettings();
-    const chatPreset = chatCompletionSettings.preset_settings_openai;
-    const textPreset = textgenerationwebui_settings.preset;
-    const context = SillyTavern.getContext() as any;
-    const currentAPI = context.mainApi;
-
-    console.warn(`[SliderMacros] bindToPreset: currentAPI='${currentAPI}'`);
+// ============================================================================
+// Collection Bindings
+// ============================================================================
 
-    let targetPreset = '';
-    let presetType = '';
+// Most specific first: the first binding type that matches the current chat picks the collection; preset bindings come last
+const BINDING_PRIORITY: readonly BindingType[] = ['character', 'group', 'persona', 'profile'];
+const BINDING_LABELS: Record<BindingType, string> = {
+    character: 'Character',
+    group: 'Group chat',
+    persona: 'Persona',
+    profile: 'Connection profile',
+};
+const BINDING_ICONS: Record<BindingType, string> = {
+    character: 'fa-user',
+    group: 'fa-users',
+    persona: 'fa-id-badge',
+    profile: 'fa-plug',
+};
+
+// Why the active collection was picked, shown in the settings panel; stale once another collection is made active
+let activeCollectionReason: { collection: string; reason: string } | null = null;
 
-    if (currentAPI === 'openai') {
-        targetPreset = chatPreset;
-        presetType = 'Chat Completion';
-    } else if (currentAPI === 'textgenerationwebui') {
-        targetPreset = textPreset;
-        presetType = 'Text Completion';
-    } else {
-        console.warn(`[SliderMacros] Unsupported API for binding: ${currentAPI}`);
-        toastr.warning(`Slider binding is not supported for the current API: ${currentAPI}`);
-        return;
+/**
+ * Gets the current character, group chat, persona or connection profile that a binding of the given type would match.
+ * @param type - The binding type
+ * @returns Its id and display name, or null if there is none (e.g. no character in a group chat)
+ */
+function getCurrentBindingTarget(type: BindingType): { id: string; name: string } | null {
+    const context = SillyTavern.getContext();
+    switch (type) {
+        case 'character': {
+            const character = !context.groupId && context.characterId !== undefined ? context.characters?.[context.characterId] : null;
+            return character?.avatar ? { id: character.avatar, name: character.name } : null;
+        }
+        case 'group': {
+            const group = context.groupId ? context.groups?.find((g: { id: string }) => g.id === context.groupId) : null;
+            return group ? { id: String(group.id), name: group.name } : null;
+        }
+        case 'persona': {
+            const avatar = getCurrentPersonaAvatar();
+            return avatar ? { id: avatar, name: context.name1 || avatar } : null;
+        }
+        case 'profile': {
+            const connectionManager = context.extensionSettings?.connectionManager;
+            const profile = connectionManager?.profiles?.find((p: { id: string }) => p.id === connectionManager.selectedProfile);
+            return profile ? { id: profile.id, name: profile.name } : null;
+        }
     }
+}
 
-    if (!targetPreset) {
-        toastr.warning('No active preset found to bind.');
-        return;
+/**
+ * Gets the avatar file of the current persona, which identifies it the way `avatar` identifies a character
+ * (persona names can repeat and change).
+ * @returns The avatar file, or null if no persona has the current user name
+ */
+function getCurrentPersonaAvatar(): string | null {
+    const context = SillyTavern.getContext();
+    const personas: Record<string, string> = power_user.personas ?? {};
+    const candidates = Object.keys(personas).filter(avatar => personas[avatar] === context.name1);
+    if (candidates.length <= 1) {
+        return candidates[0] ?? null;
     }
 
-    const activeCollection = settings.collections.find(c => c.active);
-    if (!activeCollection) {
-        toastr.warning('No active collection selected.');
-        return;
+    // Several personas share the name: the chat's locked persona, or the one selected in the persona list, tells them apart
+    const locked = context.chatMetadata?.persona;
+    if (candidates.includes(locked)) {
+        return locked;
     }
+    const selected = document.querySelector('#user_avatar_block .avatar-container.selected');
+    const avatar = selected?.getAttribute('data-avatar-id') ?? selected?.getAttribute('imgfile');
+    return avatar && candidates.includes(avatar) ? avatar : candidates[0];
+}
 
-    const collectionWithPreset = settings.collections.find(c => c.presets.includes(targetPreset));
-    if (collectionWithPreset) {
-        // Remove from old collection
-        collectionWithPreset.presets.splice(collectionWithPreset.presets.indexOf(targetPreset), 1);
+/**
+ * Checks whether a collection is bound to the current character, group chat, persona or connection profile.
+ * @param collection - The collection to check
+ * @param type - The binding type
+ * @returns True if it has a binding of that type matching the current one
+ */
+function isBoundToCurrent(collection: SliderCollection, type: BindingType): boolean {
+    const target = getCurrentBindingTarget(type);
+    return !!target && collection.bindings.some(b => b.type === type && b.id === target.id);
+}
 
-        // If it was a different collection, warn and move
-        if (collectionWithPreset !== activeCollection) {
-            toastr.warning(`The ${presetType} preset "${targetPreset}" was unbound from collection "${collectionWithPreset.name}" and bound to "${activeCollection.name}".`);
-            // Clear any existing presets on the active collection (enforce single binding)
-            activeCollection.presets = [];
-            activeCollection.presets.push(targetPreset);
-        } else {
-            // Toggle off behavior
-            toastr.info(`The ${presetType} preset "${targetPreset}" un-bound from collection "${activeCollection.name}".`);
+/**
+ * Finds the collection bound to the current context, going through the binding types in priority order
+ * and ending with the current preset.
+ * @param settings - Extension settings containing slider collections
+ * @returns The matching collection and a description of the binding, or null if nothing matches
+ */
+function findBoundCollection(settings: ExtensionSettings): { collection: SliderCollection; reason: string } | null {
+    for (const type of BINDING_PRIORITY) {
+        const target = getCurrentBindingTarget(type);
+        const collection = target && settings.collections.find(c => c.bindings.some(b => b.type === type && b.id === target.id));
+        if (target && collection) {
+            return { collection, reason: `bound to ${BINDING_LABELS[type].toLowerCase()} "${target.name}"` };
         }
-    } else {
-        // Clear any existing presets on the active collection (enforce single binding)
-        activeCollection.presets = [];
-        activeCollection.presets.push(targetPreset);
-        toastr.info(`Selecting the ${presetType} preset "${targetPreset}" will now automatically pick the sliders collection "${activeCollection.name}".`);
     }
 
-    saveSettingsDebounced();
-    renderSliderConfigs(settings);
+    const preset = getCurrentPreset();
+    const collection = preset && settings.collections.find(c => hasPresetBinding(c, preset));
+    return preset && collection ? { collection, reason: `bound to ${PRESET_API_LABELS[preset.api]} preset "${preset.name}"` } : null;
 }
 
-// This function is used to create a new slider from the settings panel.
-function createSlider(): void {
-    const settings = getSettings();
+/**
+ * Switches to the collection bound to the current character, group chat, persona, connection profile or preset.
+ * When nothing is bound, the active collection stays.
+ * @param settings - Extension settings containing slider collections
+ */
+function applyCollectionBindings(settings: ExtensionSettings): void {
+    endPendingUserEdit(settings);
+    const match = findBoundCollection(settings);
+    if (!match) {
+        return;
+    }
+
+    activeCollectionReason = { collection: match.collection.name, reason: match.reason };
+    if (match.collection.active) {
+        updateBindingReason(match.collection);
+        return;
+    }
+
+    console.debug(`[SliderMacros] Switched to collection "${match.collection.name}" (${match.reason})`);
+    activateCollection(settings, match.collection);
+}
+
+/**
+ * Shows why the active collection was picked, in the settings panel and on the drawer's collection selector.
+ * @param activeCollection - The active collection
+ */
+function updateBindingReason(activeCollection: SliderCollection): void {
+    const reason = activeCollectionReason?.collection === activeCollection.name
+        ? `Active because it is ${activeCollectionReason.reason}.`
+        : 'Selected by hand (no binding picked it).';
+    const reasonElement = getUIElements().bindingReason;
+    if (reasonElement) {
+        reasonElement.textContent = reason;
+    }
+    document.getElementById('slider_macros_completion_collections')?.setAttribute('title', reason);
+}
+
+/**
+ * Binds the active collection to the current character, group chat, persona or connection profile, or removes
+ * that binding if it is already there. A target can only be bound to one collection, so binding moves it.
+ * @param settings - Extension settings containing slider collections
+ * @param type - The binding type
+ */
+function toggleCollectionBinding(settings: ExtensionSettings, type: BindingType): void {
+    const activeCollection = settings.collections.find(c => c.active);
+    const target = getCurrentBindingTarget(type);
+    if (!activeCollection || !target) {
+        return;
+    }
+
+    const label = BINDING_LABELS[type].toLowerCase();
+    if (isBoundToCurrent(activeCollection, type)) {
+        activeCollection.bindings = activeCollection.bindings.filter(b => !(b.type === type && b.id === target.id));
+        toastr.info(`The ${label} "${target.name}" was unbound from collection "${activeCollection.name}".`);
+    } else {
+        settings.collections.forEach((collection) => {
+            const before = collection.bindings.length;
+            collection.bindings = collection.bindings.filter(b => !(b.type === type && b.id === target.id));
+            if (collection.bindings.length !== before) {
+                toastr.warning(`The ${label} "${target.name}" was unbound from collection "${collection.name}".`);
+            }
+        });
+        activeCollection.bindings.push({ type, id: target.id, name: target.name });
+        activeCollectionReason = { collection: activeCollection.name, reason: `bound to ${label} "${target.name}"` };
+        toastr.info(`The ${label} "${target.name}" will now automatically pick the sliders collection "${activeCollection.name}".`);
+    }
+
+    saveSettingsDebounced();
+    renderSliderConfigs(settings);
+}
+
+/**
+ * Shows the binding popup: one row per binding type (and the preset) with the current target,
+ * which collection it is bound to, and a bind/unbind button for the active collection.
+ * @param settings - Extension settings containing slider collections
+ */
+async function showBindingPopup(settings: ExtensionSettings): Promise<void> {
+    const html = `
+        <div class="slider_macros_bindings">
+            <div class="slider_macros_sync_hint">When several bindings match, the first one in this list wins.</div>
+            <div class="slider_macros_binding_list"></div>
+            <div class="slider_macros_binding_heading">All bindings</div>
+            <div class="slider_macros_binding_all"></div>
+        </div>
+    `;
+
+    const renderList = (root: HTMLElement) => {
+        const listElement = root.querySelector('.slider_macros_binding_list') as HTMLDivElement;
+        const allElement = root.querySelector('.slider_macros_binding_all') as HTMLDivElement;
+        listElement.innerHTML = '';
+        allElement.innerHTML = '';
+        const activeCollection = settings.collections.find(c => c.active);
+        if (!activeCollection) {
+            return;
+        }
+
+        const addRow = (icon: string, label: string, target: string | null, boundTo: SliderCollection | undefined, onToggle: () => void) => {
+            const row = document.createElement('div');
+            row.className = 'slider_macros_binding_row';
+
+            const iconElement = document.createElement('i');
+            iconElement.className = `fa-solid ${icon}`;
+            row.appendChild(iconElement);
+
+            const info = document.createElement('div');
+            info.className = 'slider_macros_binding_info';
+            const name = document.createElement('span');
+            name.textContent = target ? `${label}: ${target}` : `${label}: none`;
+            const status = document.createElement('small');
+            status.textContent = !boundTo ? 'Not bound' : boundTo === activeCollection ? 'Bound to this collection' : `Bound to "${boundTo.name}"`;
+            info.appendChild(name);
+            info.appendChild(status);
+            row.appendChild(info);
+
+            const button = document.createElement('div');
+            button.className = 'menu_button menu_button_icon';
+            button.classList.toggle('disabled', !target);
+            button.innerHTML = boundTo === activeCollection ? '<i class="fa-solid fa-link-slash"></i><span>Unbind</span>' : '<i class="fa-solid fa-link"></i><span>Bind</span>';
+            button.addEventListener('click', () => {
+                if (!target) return;
+                onToggle();
+                renderList(root);
+            });
+            row.appendChild(button);
+
+            listElement.appendChild(row);
+        };
+
+        BINDING_PRIORITY.forEach((type) => {
+            const target = getCurrentBindingTarget(type);
+            const boundTo = target ? settings.collections.find(c => c.bindings.some(b => b.type === type && b.id === target.id)) : undefined;
+            addRow(BINDING_ICONS[type], BINDING_LABELS[type], target?.name ?? null, boundTo, () => toggleCollectionBinding(settings, type));
+        });
+
+        const preset = getCurrentPreset();
+        const presetCollection = preset ? settings.collections.find(c => hasPresetBinding(c, preset)) : undefined;
+        addRow('fa-sliders', preset ? `${PRESET_API_LABELS[preset.api]} preset` : 'Preset', preset?.name ?? null, presetCollection, bindToPreset);
+
+        // Every binding of every collection, so bindings to presets, characters etc. that aren't current can be removed too
+        const addBindingRow = (collection: SliderCollection, icon: string, label: string, onUnbind: () => void) => {
+            const row = document.createElement('div');
+            row.className = 'slider_macros_binding_row';
+
+            const iconElement = document.createElement('i');
+            iconElement.className = `fa-solid ${icon}`;
+            row.appendChild(iconElement);
+
+            const info = document.createElement('div');
+            info.className = 'slider_macros_binding_info';
+            const name = document.createElement('span');
+            name.textContent = label;
+            const status = document.createElement('small');
+            status.textContent = `Collection "${collection.name}"`;
+            info.appendChild(name);
+            info.appendChild(status);
+            row.appendChild(info);
+
+            const button = document.createElement('div');
+            button.className = 'menu_button menu_button_icon';
+            button.title = 'Unbind';
+            button.innerHTML = '<i class="fa-solid fa-link-slash"></i>';
+            button.addEventListener('click', () => {
+                onUnbind();
+                saveSettingsDebounced();
+                renderSliderConfigs(settings);
+                renderList(root);
+            });
+            row.appendChild(button);
+
+            allElement.appendChild(row);
+        };
+
+        settings.collections.forEach((collection) => {
+            collection.bindings.forEach((binding) => {
+                addBindingRow(collection, BINDING_ICONS[binding.type], `${BINDING_LABELS[binding.type]}: ${binding.name}`, () => {
+                    collection.bindings = collection.bindings.filter(b => b !== binding);
+                });
+            });
+            collection.presets.forEach((binding) => {
+                addBindingRow(collection, 'fa-sliders', `${PRESET_API_LABELS[binding.api]} preset: ${binding.name}`, () => {
+                    collection.presets = collection.presets.filter(b => b !== binding);
+                });
+            });
+        });
+
+        if (!allElement.children.length) {
+            allElement.textContent = 'No bindings yet.';
+        }
+    };
+
+    const popup = Popup.show.text(`Bind "${settings.collections.find(c => c.active)?.name ?? ''}"`, html);
+
+    // After popup opens, attach event listeners
+    setTimeout(() => {
+        const root = document.querySelector('.slider_macros_bindings') as HTMLDivElement;
+        if (root) {
+            renderList(root);
+        }
+    }, 50);
+
+    await popup;
+}
+
+// ============================================================================
+// End Collection Bindings
+// ============================================================================
+
+const PRESET_API_LABELS: Record<PresetApi, string> = {
+    openai: 'Chat Completion',
+    textgenerationwebui: 'Text Completion',
+};
+
+/**
+ * Gets the selected preset of the API in use.
+ * @returns The API and preset name, or null if the API's presets can't be bound or none is selected
+ */
+function getCurrentPreset(): PresetBinding | null {
+    const currentAPI = SillyTavern.getContext().mainApi;
+    if (currentAPI === 'openai') {
+        return chatCompletionSettings.preset_settings_openai ? { api: 'openai', name: chatCompletionSettings.preset_settings_openai } : null;
+    }
+    if (currentAPI === 'textgenerationwebui') {
+        return textgenerationwebui_settings.preset ? { api: 'textgenerationwebui', name: textgenerationwebui_settings.preset } : null;
+    }
+    return null;
+}
+
+/**
+ * Checks whether a collection is bound to a preset of a given API.
+ * @param collection - The collection to check
+ * @param preset - The API and preset name
+ * @returns True if the collection has that preset binding
+ */
+function hasPresetBinding(collection: SliderCollection, preset: PresetBinding): boolean {
+    return collection.presets.some(p => p.api === preset.api && p.name === preset.name);
+}
+
+// This function is used to bind the active collection to a preset, or unbind it if it already is.
+// A collection can be bound to any number of presets, but each preset picks only one collection.
+function bindToPreset(): void {
+    const settings = getSettings();
+    const currentAPI = SillyTavern.getContext().mainApi;
+    const preset = getCurrentPreset();
+
+    if (currentAPI !== 'openai' && currentAPI !== 'textgenerationwebui') {
+        console.warn(`[SliderMacros] Unsupported API for binding: ${currentAPI}`);
+        toastr.warning(`Slider binding is not supported for the current API: ${currentAPI}`);
+        return;
+    }
+
+    if (!preset) {
+        toastr.warning('No active preset found to bind.');
+        return;
+    }
+
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        toastr.warning('No active collection selected.');
+        return;
+    }
+
+    const presetType = PRESET_API_LABELS[preset.api];
+    const collectionWithPreset = settings.collections.find(c => hasPresetBinding(c, preset));
+    if (collectionWithPreset) {
+        // Remove from old collection
+        collectionWithPreset.presets = collectionWithPreset.presets.filter(p => !(p.api === preset.api && p.name === preset.name));
+
+        // If it was a different collection, warn and move
+        if (collectionWithPreset !== activeCollection) {
+            toastr.warning(`The ${presetType} preset "${preset.name}" was unbound from collection "${collectionWithPreset.name}" and bound to "${activeCollection.name}".`);
+            activeCollection.presets.push(preset);
+        } else {
+            // Toggle off behavior
+            toastr.info(`The ${presetType} preset "${preset.name}" un-bound from collection "${activeCollection.name}".`);
+        }
+    } else {
+        activeCollection.presets.push(preset);
+        toastr.info(`Selecting the ${presetType} preset "${preset.name}" will now automatically pick the sliders collection "${activeCollection.name}".`);
+    }
+
+    saveSettingsDebounced();
+    renderSliderConfigs(settings);
+}
+
+// This function is used to create a new slider from the settings panel.
+function createSlider(): void {
+    const settings = getSettings();
     const activeCollection = settings.collections.find(c => c.active);
     if (!activeCollection) {
         return;
     }
     activeCollection.sliders.unshift({
+        id: generateSliderId(),
         name: 'New Slider',
         property: '',
         type: 'Numeric',
@@ -1373,9 +2260,27 @@ function createSlider(): void {
         max: '1',
         step: '0.01',
         value: 0,
+        defaultValue: 0,
         enabled: true,
         options: [],
         dropdownOptions: [],
+        tagSeparator: ', ',
+        tagLastSeparator: '',
+        tagPrefix: '',
+        tagSuffix: '',
+        outputDecimals: '',
+        outputPercent: false,
+        outputPrefix: '',
+        outputSuffix: '',
+        valueMap: [],
+        behavior: 'none',
+        behaviorEvery: 1,
+        behaviorAmount: '',
+        schedule: [],
+        randomize: false,
+        randomWeights: '',
+        randomChance: 0.5,
+        randomShow: false,
         colorFormat: 'hex',
         checkboxTrueValue: 'true',
         checkboxFalseValue: 'false',
@@ -1386,6 +2291,12 @@ function createSlider(): void {
         syncScope: 'local',
         syncForce: false,
         sliderMode: 'macro',
+        expression: '',
+        conditions: [],
+        conditionMatch: 'all',
+        conditionEffect: 'hide',
+        emptyWhenHidden: false,
+        triggers: [],
     });
 
     saveSettingsDebounced();
@@ -1429,20 +2340,15 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
         option.selected = collection.active;
         elements.collections.appendChild(option);
     });
-    const chatPreset = chatCompletionSettings.preset_settings_openai;
-    const textPreset = textgenerationwebui_settings.preset;
-    const context = SillyTavern.getContext() as any;
-    const currentAPI = context.mainApi;
-
     // Check if the current active preset FOR THE SELECTED API TYPE is bound to this selected collection (for the purposes of lighting up the bind button, pretty colors, etc.)
-    let isBound = false;
-    if (currentAPI === 'openai') {
-        isBound = activeCollection.presets.includes(chatPreset);
-    } else if (currentAPI === 'textgenerationwebui') {
-        isBound = activeCollection.presets.includes(textPreset);
-    }
+    const currentPreset = getCurrentPreset();
+    const isBound = !!currentPreset && hasPresetBinding(activeCollection, currentPreset);
 
-    elements.bindToPreset.classList.toggle('toggleEnabled', isBound);
+    elements.bindToPreset.classList.toggle('toggleEnabled', isBound || BINDING_PRIORITY.some(type => isBoundToCurrent(activeCollection, type)));
+    updateBindingReason(activeCollection);
+    elements.valueScope.value = activeCollection.valueScope || 'global';
+    updateInjectionControls(activeCollection);
+    updateDirectiveControls(activeCollection);
 
     // Helper function to create a slider card element
     const createSliderCard = (slider: SliderModel, index: number): DocumentFragment => {
@@ -1479,6 +2385,13 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
         const dropdownOnly = renderer.content.querySelector('.dropdown-only') as HTMLElement;
         const colorOnly = renderer.content.querySelector('.color-only') as HTMLElement;
         const checkboxOnly = renderer.content.querySelector('.checkbox-only') as HTMLElement;
+        const computedOnly = renderer.content.querySelector('.computed-only') as HTMLElement;
+        const textOnly = renderer.content.querySelector('.text-only') as HTMLElement;
+        const tagsOnly = renderer.content.querySelector('.tags-only') as HTMLElement;
+        const triggersSection = renderer.content.querySelector('.slider_macros_triggers_section') as HTMLElement;
+        const randomSection = renderer.content.querySelector('.slider_macros_random_section') as HTMLElement;
+        const randomWeightsField = renderer.content.querySelector('.slider_macros_random_weights_field') as HTMLElement;
+        const randomChanceField = renderer.content.querySelector('.slider_macros_random_chance_field') as HTMLElement;
 
         // New type inputs
         const colorFormatSelect = renderer.content.querySelector('select[name="colorFormat"]') as HTMLSelectElement;
@@ -1486,6 +2399,13 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
         const checkboxTrueValueInput = renderer.content.querySelector('input[name="checkboxTrueValue"]') as HTMLInputElement;
         const checkboxFalseValueInput = renderer.content.querySelector('input[name="checkboxFalseValue"]') as HTMLInputElement;
         const defaultCheckboxSelect = renderer.content.querySelector('select[name="defaultCheckbox"]') as HTMLSelectElement;
+        const defaultNumericInput = renderer.content.querySelector('input[name="defaultNumeric"]') as HTMLInputElement;
+        const defaultTextInput = renderer.content.querySelector('textarea[name="defaultText"]') as HTMLTextAreaElement;
+        const defaultBooleanSelect = renderer.content.querySelector('select[name="defaultBoolean"]') as HTMLSelectElement;
+        const defaultMultiSelectSelect = renderer.content.querySelector('select[name="defaultMultiSelect"]') as HTMLSelectElement;
+        const defaultDropdownSelect = renderer.content.querySelector('select[name="defaultDropdown"]') as HTMLSelectElement;
+        const defaultDropdownField = defaultDropdownSelect?.closest('.slider_macros_field') as HTMLDivElement;
+        const defaultTagsContainer = renderer.content.querySelector('.slider_macros_default_tags') as HTMLDivElement;
         const dropdownOptionsContainer = renderer.content.querySelector('.slider_macros_dropdown_options') as HTMLDivElement;
         const addDropdownOptionButton = renderer.content.querySelector('button[name="addDropdownOption"]') as HTMLButtonElement;
 
@@ -1504,10 +2424,13 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
 
         // Set values for new type inputs
         if (colorFormatSelect) colorFormatSelect.value = slider.colorFormat;
-        if (defaultColorInput) defaultColorInput.value = typeof slider.value === 'string' && slider.value.startsWith('#') ? slider.value : '#ffffff';
+        if (defaultColorInput) defaultColorInput.value = typeof slider.defaultValue === 'string' && slider.defaultValue.startsWith('#') ? slider.defaultValue : '#ffffff';
         if (checkboxTrueValueInput) checkboxTrueValueInput.value = slider.checkboxTrueValue;
         if (checkboxFalseValueInput) checkboxFalseValueInput.value = slider.checkboxFalseValue;
-        if (defaultCheckboxSelect) defaultCheckboxSelect.value = slider.value === true ? 'true' : 'false';
+        if (defaultCheckboxSelect) defaultCheckboxSelect.value = slider.defaultValue === true ? 'true' : 'false';
+        if (defaultNumericInput) defaultNumericInput.value = typeof slider.defaultValue === 'number' ? slider.defaultValue.toString() : '';
+        if (defaultTextInput) defaultTextInput.value = typeof slider.defaultValue === 'string' ? slider.defaultValue : '';
+        if (defaultBooleanSelect) defaultBooleanSelect.value = slider.defaultValue ? 'true' : 'false';
 
         // Populate group selector
         if (groupIdSelect) {
@@ -1563,21 +2486,83 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
                 input.addEventListener('input', () => {
                     slider.options[i] = input.value;
                     // Ensure options array matches inputs
+                    renderDefaultMultiSelectOptions();
                     debouncedRender();
                     debouncedSaveSettings();
                 });
             }
         });
 
+        // Default option selectors for MultiSelect (by option index) and Dropdown (by key)
+        const renderDefaultMultiSelectOptions = () => {
+            if (!defaultMultiSelectSelect) return;
+            defaultMultiSelectSelect.innerHTML = '';
+            (slider.options || []).filter(o => o.trim() !== '').forEach((opt, optIndex) => {
+                const option = document.createElement('option');
+                option.value = optIndex.toString();
+                option.textContent = opt;
+                option.selected = Number(slider.defaultValue) === optIndex;
+                defaultMultiSelectSelect.appendChild(option);
+            });
+        };
+
+        const renderDefaultDropdownOptions = () => {
+            if (!defaultDropdownSelect) return;
+            defaultDropdownSelect.innerHTML = '';
+            (slider.dropdownOptions || []).filter(o => o.key.trim() !== '').forEach((opt) => {
+                const option = document.createElement('option');
+                option.value = opt.key;
+                option.textContent = opt.key;
+                option.selected = slider.defaultValue === opt.key;
+                defaultDropdownSelect.appendChild(option);
+            });
+        };
+
+        // Default tags for Tags sliders: one checkbox per option
+        const renderDefaultTags = () => {
+            if (!defaultTagsContainer) return;
+            defaultTagsContainer.innerHTML = '';
+            (slider.dropdownOptions || []).filter(o => o.key.trim() !== '').forEach((opt) => {
+                const label = document.createElement('label');
+                label.className = 'checkbox_label';
+
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = String(slider.defaultValue ?? '').split('\n').includes(opt.key);
+                checkbox.addEventListener('change', () => {
+                    const current = String(slider.defaultValue ?? '').split('\n').filter(k => k !== '' && k !== opt.key);
+                    slider.defaultValue = (checkbox.checked ? [...current, opt.key] : current).join('\n');
+                    debouncedSaveSettings();
+                });
+
+                const text = document.createElement('span');
+                text.textContent = opt.key;
+
+                label.appendChild(checkbox);
+                label.appendChild(text);
+                defaultTagsContainer.appendChild(label);
+            });
+        };
+
+        renderDefaultMultiSelectOptions();
+
         // Visibility toggle function for this specific slider instance
         const updateVisibility = () => {
             const type = typeSelect.value;
             if (numericOnly) numericOnly.style.display = type === 'Numeric' ? 'block' : 'none';
             if (booleanOnly) booleanOnly.style.display = type === 'Boolean' ? 'block' : 'none';
             if (multiSelectOnly) multiSelectOnly.style.display = type === 'MultiSelect' ? 'block' : 'none';
-            if (dropdownOnly) dropdownOnly.style.display = type === 'Dropdown' ? 'block' : 'none';
+            if (dropdownOnly) dropdownOnly.style.display = type === 'Dropdown' || type === 'Tags' ? 'block' : 'none';
+            if (defaultDropdownField) defaultDropdownField.style.display = type === 'Dropdown' ? 'block' : 'none';
+            if (tagsOnly) tagsOnly.style.display = type === 'Tags' ? 'block' : 'none';
             if (colorOnly) colorOnly.style.display = type === 'Color' ? 'block' : 'none';
             if (checkboxOnly) checkboxOnly.style.display = type === 'Checkbox' ? 'block' : 'none';
+            if (computedOnly) computedOnly.style.display = type === 'Computed' ? 'block' : 'none';
+            if (textOnly) textOnly.style.display = type === 'Text' || type === 'Textarea' ? 'block' : 'none';
+            if (triggersSection) triggersSection.style.display = type === 'Computed' ? 'none' : 'block';
+            if (randomSection) randomSection.style.display = isRandomizableSlider({ ...slider, type }) ? 'block' : 'none';
+            if (randomWeightsField) randomWeightsField.style.display = type === 'Boolean' || type === 'Checkbox' ? 'none' : 'block';
+            if (randomChanceField) randomChanceField.style.display = type === 'Boolean' || type === 'Checkbox' ? 'block' : 'none';
         };
 
         // Dropdown options management
@@ -1595,6 +2580,8 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
                 keyInput.value = opt.key;
                 keyInput.addEventListener('input', () => {
                     slider.dropdownOptions[optIndex].key = keyInput.value;
+                    renderDefaultDropdownOptions();
+                    renderDefaultTags();
                     debouncedRender();
                     debouncedSaveSettings();
                 });
@@ -1641,6 +2628,8 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
                 row.appendChild(removeBtn);
                 dropdownOptionsContainer.appendChild(row);
             });
+            renderDefaultDropdownOptions();
+            renderDefaultTags();
         };
 
         renderDropdownOptions();
@@ -1653,105 +2642,441 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
             });
         }
 
-        // Color format change handler
-        if (colorFormatSelect) {
-            colorFormatSelect.addEventListener('change', () => {
-                slider.colorFormat = colorFormatSelect.value as 'hex' | 'rgb' | 'hsv';
-                debouncedRender();
+        // Tags joining inputs
+        const tagInputs: Array<['tagSeparator' | 'tagLastSeparator' | 'tagPrefix' | 'tagSuffix', HTMLInputElement]> = [
+            ['tagSeparator', renderer.content.querySelector('input[name="tagSeparator"]') as HTMLInputElement],
+            ['tagLastSeparator', renderer.content.querySelector('input[name="tagLastSeparator"]') as HTMLInputElement],
+            ['tagPrefix', renderer.content.querySelector('input[name="tagPrefix"]') as HTMLInputElement],
+            ['tagSuffix', renderer.content.querySelector('input[name="tagSuffix"]') as HTMLInputElement],
+        ];
+        tagInputs.forEach(([field, input]) => {
+            if (!input) return;
+            input.value = slider[field];
+            input.addEventListener('input', () => {
+                slider[field] = input.value;
+                updateSliderMacros(settings);
                 debouncedSaveSettings();
             });
+        });
+
+        // Numeric output formatting elements
+        const outputDecimalsInput = renderer.content.querySelector('input[name="outputDecimals"]') as HTMLInputElement;
+        const outputPrefixInput = renderer.content.querySelector('input[name="outputPrefix"]') as HTMLInputElement;
+        const outputSuffixInput = renderer.content.querySelector('input[name="outputSuffix"]') as HTMLInputElement;
+        const outputPercentCheckbox = renderer.content.querySelector('input[name="outputPercent"]') as HTMLInputElement;
+        const valueMapContainer = renderer.content.querySelector('.slider_macros_value_map') as HTMLDivElement;
+        const addValueRangeButton = renderer.content.querySelector('button[name="addValueRange"]') as HTMLButtonElement;
+        const numericPreview = renderer.content.querySelector('.slider_macros_numeric_preview') as HTMLDivElement;
+
+        if (outputDecimalsInput) outputDecimalsInput.value = slider.outputDecimals;
+        if (outputPrefixInput) outputPrefixInput.value = slider.outputPrefix;
+        if (outputSuffixInput) outputSuffixInput.value = slider.outputSuffix;
+        if (outputPercentCheckbox) outputPercentCheckbox.checked = slider.outputPercent;
+
+        // Show what the macro currently outputs for the slider's value
+        const updateNumericPreview = () => {
+            if (!numericPreview) return;
+            numericPreview.textContent = `Output for ${slider.value}: ${formatNumericOutput(slider)}`;
+        };
+
+        const onNumericFormatChange = () => {
+            updateNumericPreview();
+            updateSliderMacros(settings);
+            debouncedSaveSettings();
+        };
+
+        if (outputDecimalsInput) {
+            outputDecimalsInput.addEventListener('input', () => {
+                slider.outputDecimals = outputDecimalsInput.value.trim();
+                onNumericFormatChange();
+            });
         }
 
-        // Default color handler
-        if (defaultColorInput) {
-            defaultColorInput.addEventListener('input', () => {
-                slider.value = defaultColorInput.value;
-                debouncedRender();
-                debouncedSaveSettings();
+        if (outputPrefixInput) {
+            outputPrefixInput.addEventListener('input', () => {
+                slider.outputPrefix = outputPrefixInput.value;
+                onNumericFormatChange();
             });
         }
 
-        // Checkbox value handlers
-        if (checkboxTrueValueInput) {
-            checkboxTrueValueInput.addEventListener('input', () => {
-                slider.checkboxTrueValue = checkboxTrueValueInput.value;
-                debouncedRender();
+        if (outputSuffixInput) {
+            outputSuffixInput.addEventListener('input', () => {
+                slider.outputSuffix = outputSuffixInput.value;
+                onNumericFormatChange();
+            });
+        }
+
+        if (outputPercentCheckbox) {
+            outputPercentCheckbox.addEventListener('change', () => {
+                slider.outputPercent = outputPercentCheckbox.checked;
+                onNumericFormatChange();
+            });
+        }
+
+        // Turn-based automation
+        const behaviorSelect = renderer.content.querySelector('select[name="behavior"]') as HTMLSelectElement;
+        const behaviorEveryInput = renderer.content.querySelector('input[name="behaviorEvery"]') as HTMLInputElement;
+        const behaviorAmountInput = renderer.content.querySelector('input[name="behaviorAmount"]') as HTMLInputElement;
+        const scheduleContainer = renderer.content.querySelector('.slider_macros_schedule') as HTMLDivElement;
+        const addScheduleButton = renderer.content.querySelector('button[name="addScheduledChange"]') as HTMLButtonElement;
+
+        if (behaviorSelect) behaviorSelect.value = slider.behavior;
+        if (behaviorEveryInput) behaviorEveryInput.value = String(slider.behaviorEvery);
+        if (behaviorAmountInput) behaviorAmountInput.value = slider.behaviorAmount;
+
+        const updateBehaviorVisibility = () => {
+            const active = slider.behavior !== 'none';
+            behaviorEveryInput?.closest('.slider_macros_field')?.classList.toggle('displayNone', !active);
+            behaviorAmountInput?.closest('.slider_macros_field')?.classList.toggle('displayNone', !active);
+        };
+        updateBehaviorVisibility();
+
+        if (behaviorSelect) {
+            behaviorSelect.addEventListener('change', () => {
+                slider.behavior = behaviorSelect.value as SliderModel['behavior'];
+                updateBehaviorVisibility();
                 debouncedSaveSettings();
             });
         }
 
-        if (checkboxFalseValueInput) {
-            checkboxFalseValueInput.addEventListener('input', () => {
-                slider.checkboxFalseValue = checkboxFalseValueInput.value;
-                debouncedRender();
+        if (behaviorEveryInput) {
+            behaviorEveryInput.addEventListener('input', () => {
+                slider.behaviorEvery = Math.max(1, parseInt(behaviorEveryInput.value, 10) || 1);
                 debouncedSaveSettings();
             });
         }
 
-        if (defaultCheckboxSelect) {
-            defaultCheckboxSelect.addEventListener('change', () => {
-                slider.value = defaultCheckboxSelect.value === 'true';
-                debouncedRender();
+        if (behaviorAmountInput) {
+            behaviorAmountInput.addEventListener('input', () => {
+                slider.behaviorAmount = behaviorAmountInput.value.trim();
                 debouncedSaveSettings();
             });
         }
 
-        // Initial update
-        updateVisibility();
+        const renderSchedule = () => {
+            if (!scheduleContainer) return;
+            scheduleContainer.innerHTML = '';
+            slider.schedule.forEach((change, changeIndex) => {
+                const row = document.createElement('div');
+                row.className = 'slider_macros_schedule_row';
+
+                const turnLabel = document.createElement('span');
+                turnLabel.className = 'slider_macros_dropdown_arrow';
+                turnLabel.textContent = 'Turn';
+
+                const turnInput = document.createElement('input');
+                turnInput.type = 'number';
+                turnInput.min = '1';
+                turnInput.className = 'text_pole slider_macros_schedule_turn';
+                turnInput.value = String(change.turn);
+                turnInput.addEventListener('input', () => {
+                    change.turn = Math.max(1, parseInt(turnInput.value, 10) || 1);
+                    debouncedSaveSettings();
+                });
 
-        // Event listener for type change
-        typeSelect.addEventListener('change', () => {
-            slider.type = typeSelect.value;
-            cardTypeBadge.textContent = slider.type;
-            updateVisibility();
-            saveSettingsDebounced();
-            // Re-render sliders to reflect type change in the main UI
-            renderCompletionSliders(settings);
-        });
+                const arrow = document.createElement('span');
+                arrow.className = 'slider_macros_dropdown_arrow';
+                arrow.textContent = '→';
 
-        // Event listener for group change - re-render entire settings panel to move slider
-        if (groupIdSelect) {
-            groupIdSelect.addEventListener('change', () => {
-                slider.groupId = groupIdSelect.value || null;
-                saveSettingsDebounced();
-                renderSliderConfigs(settings);
+                const valueInput = document.createElement('input');
+                valueInput.type = 'text';
+                valueInput.className = 'text_pole slider_macros_schedule_value';
+                valueInput.placeholder = 'Value';
+                valueInput.value = change.value;
+                valueInput.addEventListener('input', () => {
+                    change.value = valueInput.value.trim();
+                    debouncedSaveSettings();
+                });
+
+                const removeBtn = document.createElement('button');
+                removeBtn.type = 'button';
+                removeBtn.className = 'menu_button menu_button_icon slider_macros_btn_remove_option';
+                removeBtn.innerHTML = '<i class="fa-solid fa-times"></i>';
+                removeBtn.title = 'Remove scheduled change';
+                removeBtn.addEventListener('click', () => {
+                    slider.schedule.splice(changeIndex, 1);
+                    renderSchedule();
+                    debouncedSaveSettings();
+                });
+
+                row.appendChild(turnLabel);
+                row.appendChild(turnInput);
+                row.appendChild(arrow);
+                row.appendChild(valueInput);
+                row.appendChild(removeBtn);
+                scheduleContainer.appendChild(row);
             });
-        }
+        };
 
-        nameInput.addEventListener('input', () => {
-            slider.name = nameInput.value;
-            cardNameDisplay.textContent = slider.name || 'New Slider';
-            debouncedRender();
-            debouncedSaveSettings();
-        });
+        renderSchedule();
 
-        propertyInput.addEventListener('input', () => {
-            slider.property = propertyInput.value;
-            cardMacroDisplay.textContent = slider.property || '';
-            updateMacroStatus();
-            debouncedRender();
-            debouncedSaveSettings();
-        });
+        if (addScheduleButton) {
+            addScheduleButton.addEventListener('click', () => {
+                const lastTurn = slider.schedule.reduce((max, change) => Math.max(max, change.turn), 0);
+                slider.schedule.push({ turn: lastTurn + 1, value: '' });
+                renderSchedule();
+                debouncedSaveSettings();
+            });
+        }
 
-        // Macro status indicator - shows if macro already exists and if it's protected
-        const updateMacroStatus = () => {
-            if (!macroStatusElement) return;
-            const macroName = propertyInput.value.trim();
-            if (!macroName) {
-                macroStatusElement.textContent = '';
-                macroStatusElement.className = 'slider_macros_macro_status';
-                return;
-            }
+        // Value map management
+        const renderValueMap = () => {
+            if (!valueMapContainer) return;
+            valueMapContainer.innerHTML = '';
+            slider.valueMap.forEach((range, rangeIndex) => {
+                const row = document.createElement('div');
+                row.className = 'slider_macros_value_map_row';
+
+                const createBoundInput = (bound: 'min' | 'max') => {
+                    const input = document.createElement('input');
+                    input.type = 'text';
+                    input.className = 'text_pole slider_macros_value_map_bound';
+                    input.placeholder = bound === 'min' ? '-∞' : '∞';
+                    input.value = range[bound];
+                    input.addEventListener('input', () => {
+                        range[bound] = input.value.trim();
+                        onNumericFormatChange();
+                    });
+                    return input;
+                };
 
-            // Use cached protected status to avoid issues with our slider overriding core macros
-            const isProtected = isProtectedMacro(macroName);
+                const dash = document.createElement('span');
+                dash.className = 'slider_macros_dropdown_arrow';
+                dash.textContent = '–';
 
-            // Check if macro exists (either in registry or resolves to a value)
-            const macroExists = hasMacro(macroName);
+                const arrow = document.createElement('span');
+                arrow.className = 'slider_macros_dropdown_arrow';
+                arrow.textContent = '→';
 
-            if (isProtected) {
-                // Always show as protected if it was originally a core macro
-                const currentValue = getMacroValue(macroName);
+                const textInput = document.createElement('input');
+                textInput.type = 'text';
+                textInput.className = 'text_pole slider_macros_value_map_text';
+                textInput.placeholder = 'Macro output';
+                textInput.value = range.text;
+                textInput.addEventListener('input', () => {
+                    range.text = textInput.value;
+                    onNumericFormatChange();
+                });
+
+                const removeBtn = document.createElement('button');
+                removeBtn.type = 'button';
+                removeBtn.className = 'menu_button menu_button_icon slider_macros_btn_remove_option';
+                removeBtn.innerHTML = '<i class="fa-solid fa-times"></i>';
+                removeBtn.title = 'Remove range';
+                removeBtn.addEventListener('click', () => {
+                    slider.valueMap.splice(rangeIndex, 1);
+                    renderValueMap();
+                    onNumericFormatChange();
+                });
+
+                row.appendChild(createBoundInput('min'));
+                row.appendChild(dash);
+                row.appendChild(createBoundInput('max'));
+                row.appendChild(arrow);
+                row.appendChild(textInput);
+                row.appendChild(removeBtn);
+                valueMapContainer.appendChild(row);
+            });
+        };
+
+        renderValueMap();
+        updateNumericPreview();
+
+        if (addValueRangeButton) {
+            addValueRangeButton.addEventListener('click', () => {
+                slider.valueMap.push({ min: '', max: '', text: '' });
+                renderValueMap();
+                onNumericFormatChange();
+            });
+        }
+
+        // Color format change handler
+        if (colorFormatSelect) {
+            colorFormatSelect.addEventListener('change', () => {
+                slider.colorFormat = colorFormatSelect.value as 'hex' | 'rgb' | 'hsv';
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        // Default value handlers - these only change what the slider resets to, not its current value
+        if (defaultColorInput) {
+            defaultColorInput.addEventListener('input', () => {
+                slider.defaultValue = defaultColorInput.value;
+                debouncedSaveSettings();
+            });
+        }
+
+        if (defaultNumericInput) {
+            defaultNumericInput.addEventListener('input', () => {
+                const num = parseFloat(defaultNumericInput.value);
+                if (!isNaN(num)) {
+                    slider.defaultValue = num;
+                    debouncedSaveSettings();
+                }
+            });
+        }
+
+        if (defaultTextInput) {
+            // Prevent Enter key from being captured by parent handlers (e.g., SillyTavern's chat submit)
+            defaultTextInput.addEventListener('keydown', (e) => {
+                if (e.key === 'Enter') {
+                    e.stopPropagation();
+                }
+            });
+            defaultTextInput.addEventListener('input', () => {
+                slider.defaultValue = defaultTextInput.value;
+                debouncedSaveSettings();
+            });
+        }
+
+        if (defaultBooleanSelect) {
+            defaultBooleanSelect.addEventListener('change', () => {
+                // Boolean sliders store 1 = True, 0 = False
+                slider.defaultValue = defaultBooleanSelect.value === 'true' ? 1 : 0;
+                saveSettingsDebounced();
+            });
+        }
+
+        if (defaultMultiSelectSelect) {
+            defaultMultiSelectSelect.addEventListener('change', () => {
+                slider.defaultValue = parseInt(defaultMultiSelectSelect.value, 10) || 0;
+                saveSettingsDebounced();
+            });
+        }
+
+        if (defaultDropdownSelect) {
+            defaultDropdownSelect.addEventListener('change', () => {
+                slider.defaultValue = defaultDropdownSelect.value;
+                saveSettingsDebounced();
+            });
+        }
+
+        // Checkbox value handlers
+        if (checkboxTrueValueInput) {
+            checkboxTrueValueInput.addEventListener('input', () => {
+                slider.checkboxTrueValue = checkboxTrueValueInput.value;
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (checkboxFalseValueInput) {
+            checkboxFalseValueInput.addEventListener('input', () => {
+                slider.checkboxFalseValue = checkboxFalseValueInput.value;
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (defaultCheckboxSelect) {
+            defaultCheckboxSelect.addEventListener('change', () => {
+                slider.defaultValue = defaultCheckboxSelect.value === 'true';
+                saveSettingsDebounced();
+            });
+        }
+
+        // Computed expression editor with a live preview of the result
+        const expressionInput = renderer.content.querySelector('textarea[name="expression"]') as HTMLTextAreaElement;
+        const computedPreview = renderer.content.querySelector('.slider_macros_computed_preview') as HTMLDivElement;
+
+        const updateComputedPreview = () => {
+            if (!computedPreview) return;
+            if (!slider.expression.trim()) {
+                computedPreview.textContent = '';
+                computedPreview.className = 'slider_macros_computed_preview';
+                return;
+            }
+            try {
+                const result = evaluateComputedSlider(activeCollection, slider);
+                const displayValue = result.length > 50 ? result.substring(0, 50) + '...' : result;
+                computedPreview.textContent = `= ${displayValue}`;
+                computedPreview.className = 'slider_macros_computed_preview valid';
+            } catch (e) {
+                computedPreview.textContent = `⚠ ${(e as Error).message}`;
+                computedPreview.className = 'slider_macros_computed_preview invalid';
+            }
+        };
+
+        if (expressionInput) {
+            expressionInput.value = slider.expression;
+            // Prevent Enter key from being captured by parent handlers (e.g., SillyTavern's chat submit)
+            expressionInput.addEventListener('keydown', (e) => {
+                if (e.key === 'Enter') {
+                    e.stopPropagation();
+                }
+            });
+            expressionInput.addEventListener('input', () => {
+                slider.expression = expressionInput.value;
+                updateComputedPreview();
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+        updateComputedPreview();
+
+        // Initial update
+        updateVisibility();
+
+        // Event listener for type change
+        typeSelect.addEventListener('change', () => {
+            slider.type = typeSelect.value;
+            cardTypeBadge.textContent = slider.type;
+            updateVisibility();
+            saveSettingsDebounced();
+            // Re-render sliders to reflect type change in the main UI
+            renderCompletionSliders(settings);
+        });
+
+        // Event listener for group change - re-render entire settings panel to move slider
+        if (groupIdSelect) {
+            groupIdSelect.addEventListener('change', () => {
+                slider.groupId = groupIdSelect.value || null;
+                saveSettingsDebounced();
+                renderSliderConfigs(settings);
+            });
+        }
+
+        nameInput.addEventListener('input', () => {
+            slider.name = nameInput.value;
+            cardNameDisplay.textContent = slider.name || 'New Slider';
+            debouncedRender();
+            debouncedSaveSettings();
+        });
+
+        propertyInput.addEventListener('input', () => {
+            slider.property = propertyInput.value;
+            cardMacroDisplay.textContent = slider.property || '';
+            updateMacroStatus();
+            debouncedRender();
+            debouncedSaveSettings();
+        });
+
+        // Macro status indicator - shows if macro already exists and if it's protected
+        const updateMacroStatus = () => {
+            if (!macroStatusElement) return;
+            const macroName = propertyInput.value.trim();
+            if (!macroName) {
+                macroStatusElement.textContent = '';
+                macroStatusElement.className = 'slider_macros_macro_status';
+                return;
+            }
+
+            if (slider.sliderMode === 'parameter') {
+                macroStatusElement.textContent = `Sent as "${macroName}" in chat and text completion requests`;
+                macroStatusElement.className = 'slider_macros_macro_status available';
+                return;
+            }
+
+            // Use cached protected status to avoid issues with our slider overriding core macros
+            const isProtected = isProtectedMacro(macroName);
+
+            // Check if macro exists (either in registry or resolves to a value)
+            const macroExists = hasMacro(macroName);
+
+            if (isProtected) {
+                // Always show as protected if it was originally a core macro
+                const currentValue = getMacroValue(macroName);
                 const displayValue = currentValue.length > 30 ? currentValue.substring(0, 30) + '...' : currentValue;
                 macroStatusElement.textContent = `⚠ Overrides PROTECTED core macro (current: ${displayValue})`;
                 macroStatusElement.className = 'slider_macros_macro_status protected';
@@ -1911,36 +3236,53 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
         // Slider mode toggle buttons
         const modeMacroBtn = renderer.content.querySelector('button[name="modeMacro"]') as HTMLButtonElement;
         const modeVariableBtn = renderer.content.querySelector('button[name="modeVariable"]') as HTMLButtonElement;
+        const modeParameterBtn = renderer.content.querySelector('button[name="modeParameter"]') as HTMLButtonElement;
         const modeHintElement = renderer.content.querySelector('.slider_macros_mode_hint') as HTMLDivElement;
         const macroNameField = renderer.content.querySelector('.slider_macros_macro_input_row')?.closest('.slider_macros_field') as HTMLDivElement;
 
         // Update mode button states and visibility
         const updateModeUI = () => {
             const isMacroMode = slider.sliderMode === 'macro';
+            const isVariableMode = slider.sliderMode === 'variable';
+            const isParameterMode = slider.sliderMode === 'parameter';
 
             // Update button active states
             if (modeMacroBtn) {
                 modeMacroBtn.classList.toggle('active', isMacroMode);
             }
             if (modeVariableBtn) {
-                modeVariableBtn.classList.toggle('active', !isMacroMode);
+                modeVariableBtn.classList.toggle('active', isVariableMode);
+            }
+            if (modeParameterBtn) {
+                modeParameterBtn.classList.toggle('active', isParameterMode);
             }
 
             // Update hint visibility
             if (modeHintElement) {
                 const macroHint = modeHintElement.querySelector('.macro-hint') as HTMLElement;
                 const variableHint = modeHintElement.querySelector('.variable-hint') as HTMLElement;
+                const parameterHint = modeHintElement.querySelector('.parameter-hint') as HTMLElement;
                 if (macroHint) macroHint.style.display = isMacroMode ? 'block' : 'none';
-                if (variableHint) variableHint.style.display = isMacroMode ? 'none' : 'block';
+                if (variableHint) variableHint.style.display = isVariableMode ? 'block' : 'none';
+                if (parameterHint) parameterHint.style.display = isParameterMode ? 'block' : 'none';
             }
 
             // In variable mode, hide macro name field and auto-enable sync
             if (macroNameField) {
-                macroNameField.style.display = isMacroMode ? 'block' : 'none';
+                macroNameField.style.display = isVariableMode ? 'none' : 'block';
+
+                // In parameter mode the same field holds the request parameter name
+                const label = macroNameField.querySelector('.slider_macros_label') as HTMLLabelElement;
+                if (label) label.textContent = isParameterMode ? 'API Parameter' : 'Macro Name';
+                macroNameField.querySelectorAll('.slider_macros_macro_prefix, .slider_macros_macro_suffix, .slider_macros_btn_search_macro').forEach((el) => {
+                    (el as HTMLElement).style.display = isParameterMode ? 'none' : '';
+                });
+                propertyInput.placeholder = isParameterMode ? 'min_p' : 'myVar';
+                updateMacroStatus();
             }
 
             // When switching to variable mode, auto-enable sync if not already
-            if (!isMacroMode && syncEnabledCheckbox && !slider.syncEnabled) {
+            if (isVariableMode && syncEnabledCheckbox && !slider.syncEnabled) {
                 slider.syncEnabled = true;
                 syncEnabledCheckbox.checked = true;
                 updateVariableConfigVisibility();
@@ -1964,6 +3306,17 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
             });
         }
 
+        if (modeParameterBtn) {
+            modeParameterBtn.addEventListener('click', () => {
+                slider.sliderMode = 'parameter';
+                updateModeUI();
+                // Release the macro this slider may have registered in macro mode
+                updateSliderMacros(settings);
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
         // Search variable button - opens popup to search and select variables
         if (searchVariableButton) {
             searchVariableButton.addEventListener('click', async () => {
@@ -1987,75 +3340,332 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
             });
         }
 
-        // Duplicate button
-        const duplicateButton = renderer.content.querySelector('button[name="duplicate"]') as HTMLButtonElement;
-        if (duplicateButton) {
-            duplicateButton.addEventListener('click', () => {
-                const activeCollection = settings.collections.find(c => c.active);
-                if (!activeCollection) return;
-
-                // Deep clone the slider
-                const newSlider: SliderModel = {
-                    ...slider,
-                    name: `${slider.name} Copy`,
-                    property: '', // Leave macro empty for user to set
-                    order: getNextOrder(activeCollection),
-                    // Clone arrays/objects to avoid shared references
-                    options: [...(slider.options || [])],
-                    dropdownOptions: (slider.dropdownOptions || []).map(o => ({ ...o })),
-                };
+        // Conditional visibility elements
+        const conditionsContainer = renderer.content.querySelector('.slider_macros_conditions') as HTMLDivElement;
+        const addConditionButton = renderer.content.querySelector('button[name="addCondition"]') as HTMLButtonElement;
+        const conditionConfigSection = renderer.content.querySelector('.slider_macros_condition_config') as HTMLDivElement;
+        const conditionMatchSelect = renderer.content.querySelector('select[name="conditionMatch"]') as HTMLSelectElement;
+        const conditionEffectSelect = renderer.content.querySelector('select[name="conditionEffect"]') as HTMLSelectElement;
+        const emptyWhenHiddenCheckbox = renderer.content.querySelector('input[name="emptyWhenHidden"]') as HTMLInputElement;
+
+        if (conditionMatchSelect) conditionMatchSelect.value = slider.conditionMatch || 'all';
+        if (conditionEffectSelect) conditionEffectSelect.value = slider.conditionEffect || 'hide';
+        if (emptyWhenHiddenCheckbox) emptyWhenHiddenCheckbox.checked = slider.emptyWhenHidden || false;
+
+        const renderConditions = () => {
+            if (!conditionsContainer) return;
+            conditionsContainer.innerHTML = '';
+            if (conditionConfigSection) {
+                conditionConfigSection.style.display = slider.conditions.length > 0 ? 'block' : 'none';
+            }
 
-                activeCollection.sliders.push(newSlider);
-                renderSliderConfigs(settings);
-                saveSettingsDebounced();
-            });
-        }
+            slider.conditions.forEach((condition, conditionIndex) => {
+                const row = document.createElement('div');
+                row.className = 'slider_macros_condition_row';
+
+                // Other sliders in the collection that this one can depend on
+                const targetSelect = document.createElement('select');
+                targetSelect.className = 'text_pole slider_macros_condition_target';
+                const placeholder = document.createElement('option');
+                placeholder.value = '';
+                placeholder.textContent = 'Select slider...';
+                targetSelect.appendChild(placeholder);
+                activeCollection.sliders.filter(s => s !== slider).forEach((other) => {
+                    const option = document.createElement('option');
+                    option.value = getSliderId(other);
+                    option.textContent = other.name + (other.property ? ` {{${other.property}}}` : '');
+                    option.selected = condition.sliderId === option.value;
+                    targetSelect.appendChild(option);
+                });
+                targetSelect.addEventListener('change', () => {
+                    condition.sliderId = targetSelect.value;
+                    debouncedRender();
+                    debouncedSaveSettings();
+                });
 
-        minInput.addEventListener('input', () => {
-            slider.min = minInput.value;
-            debouncedRender();
-            debouncedSaveSettings();
-        });
+                const operatorSelect = document.createElement('select');
+                operatorSelect.className = 'text_pole slider_macros_condition_operator';
+                const operators: [SliderCondition['operator'], string][] = [['equals', '='], ['notEquals', '≠'], ['greaterThan', '>'], ['lessThan', '<']];
+                operators.forEach(([value, label]) => {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = label;
+                    option.selected = condition.operator === value;
+                    operatorSelect.appendChild(option);
+                });
+                operatorSelect.addEventListener('change', () => {
+                    condition.operator = operatorSelect.value as SliderCondition['operator'];
+                    debouncedRender();
+                    debouncedSaveSettings();
+                });
 
-        maxInput.addEventListener('input', () => {
-            slider.max = maxInput.value;
-            debouncedRender();
-            debouncedSaveSettings();
-        });
+                const valueInput = document.createElement('input');
+                valueInput.type = 'text';
+                valueInput.className = 'text_pole slider_macros_condition_value';
+                valueInput.placeholder = 'e.g. true, combat, 0.5';
+                valueInput.value = condition.value;
+                valueInput.addEventListener('input', () => {
+                    condition.value = valueInput.value;
+                    debouncedRender();
+                    debouncedSaveSettings();
+                });
 
-        stepInput.addEventListener('input', () => {
-            slider.step = stepInput.value;
-            debouncedRender();
-            debouncedSaveSettings();
-        });
+                const removeBtn = document.createElement('button');
+                removeBtn.type = 'button';
+                removeBtn.className = 'menu_button menu_button_icon slider_macros_btn_remove_option';
+                removeBtn.innerHTML = '<i class="fa-solid fa-times"></i>';
+                removeBtn.title = 'Remove condition';
+                removeBtn.addEventListener('click', () => {
+                    slider.conditions.splice(conditionIndex, 1);
+                    renderConditions();
+                    debouncedRender();
+                    debouncedSaveSettings();
+                });
 
-        enableCheckbox.addEventListener('change', () => {
-            slider.enabled = enableCheckbox.checked;
-            card.dataset.disabled = slider.enabled ? 'false' : 'true';
-            renderCompletionSliders(settings);
-            saveSettingsDebounced();
-        });
+                row.appendChild(targetSelect);
+                row.appendChild(operatorSelect);
+                row.appendChild(valueInput);
+                row.appendChild(removeBtn);
+                conditionsContainer.appendChild(row);
+            });
+        };
 
-        deleteButton.addEventListener('click', async () => {
-            const confirm = await Popup.show.confirm('Delete Slider', `Are you sure you want to delete the slider "${slider.name}"?`);
-            if (!confirm) {
-                return;
-            }
+        renderConditions();
 
-            const activeCollection = settings.collections.find(c => c.active);
-            if (!activeCollection) {
-                return;
-            }
-            activeCollection.sliders.splice(index, 1);
-            renderSliderConfigs(settings);
-            saveSettingsDebounced();
-        });
+        if (addConditionButton) {
+            addConditionButton.addEventListener('click', () => {
+                slider.conditions.push({ sliderId: '', operator: 'equals', value: '' });
+                renderConditions();
+                debouncedSaveSettings();
+            });
+        }
 
-        upButton.addEventListener('click', () => {
-            const activeCollection = settings.collections.find(c => c.active);
-            if (!activeCollection) {
-                return;
-            }
+        if (conditionMatchSelect) {
+            conditionMatchSelect.addEventListener('change', () => {
+                slider.conditionMatch = conditionMatchSelect.value as 'all' | 'any';
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (conditionEffectSelect) {
+            conditionEffectSelect.addEventListener('change', () => {
+                slider.conditionEffect = conditionEffectSelect.value as 'hide' | 'disable';
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (emptyWhenHiddenCheckbox) {
+            emptyWhenHiddenCheckbox.addEventListener('change', () => {
+                slider.emptyWhenHidden = emptyWhenHiddenCheckbox.checked;
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        // Roll per generation
+        const randomizeCheckbox = renderer.content.querySelector('input[name="randomize"]') as HTMLInputElement;
+        const randomConfigSection = renderer.content.querySelector('.slider_macros_random_config') as HTMLDivElement;
+        const randomWeightsInput = renderer.content.querySelector('input[name="randomWeights"]') as HTMLInputElement;
+        const randomChanceInput = renderer.content.querySelector('input[name="randomChance"]') as HTMLInputElement;
+        const randomShowCheckbox = renderer.content.querySelector('input[name="randomShow"]') as HTMLInputElement;
+
+        if (randomizeCheckbox) randomizeCheckbox.checked = slider.randomize;
+        if (randomWeightsInput) randomWeightsInput.value = slider.randomWeights;
+        if (randomChanceInput) randomChanceInput.value = String(slider.randomChance);
+        if (randomShowCheckbox) randomShowCheckbox.checked = slider.randomShow;
+        if (randomConfigSection) randomConfigSection.style.display = slider.randomize ? 'block' : 'none';
+
+        if (randomizeCheckbox) {
+            randomizeCheckbox.addEventListener('change', () => {
+                slider.randomize = randomizeCheckbox.checked;
+                rolledValues.delete(slider);
+                if (randomConfigSection) randomConfigSection.style.display = slider.randomize ? 'block' : 'none';
+                debouncedRender();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (randomWeightsInput) {
+            randomWeightsInput.addEventListener('input', () => {
+                slider.randomWeights = randomWeightsInput.value.trim();
+                debouncedSaveSettings();
+            });
+        }
+
+        if (randomChanceInput) {
+            randomChanceInput.addEventListener('input', () => {
+                const chance = parseFloat(randomChanceInput.value);
+                slider.randomChance = isNaN(chance) ? 0.5 : Math.min(1, Math.max(0, chance));
+                debouncedSaveSettings();
+            });
+        }
+
+        if (randomShowCheckbox) {
+            randomShowCheckbox.addEventListener('change', () => {
+                slider.randomShow = randomShowCheckbox.checked;
+                rolledValues.delete(slider);
+                debouncedSaveSettings();
+            });
+        }
+
+        // Trigger rules
+        const triggersContainer = renderer.content.querySelector('.slider_macros_triggers') as HTMLDivElement;
+        const addTriggerButton = renderer.content.querySelector('button[name="addTrigger"]') as HTMLButtonElement;
+
+        const renderTriggers = () => {
+            if (!triggersContainer) return;
+            triggersContainer.innerHTML = '';
+            slider.triggers.forEach((trigger, triggerIndex) => {
+                const row = document.createElement('div');
+                row.className = 'slider_macros_trigger_row';
+
+                const patternInput = document.createElement('input');
+                patternInput.type = 'text';
+                patternInput.className = 'text_pole slider_macros_trigger_pattern';
+                patternInput.placeholder = 'night, dusk or /\\bnight\\b/i';
+                patternInput.value = trigger.pattern;
+                patternInput.addEventListener('input', () => {
+                    trigger.pattern = patternInput.value;
+                    patternInput.classList.toggle('invalid', createTriggerMatcher(trigger.pattern) === null && trigger.pattern.trim() !== '');
+                    debouncedSaveSettings();
+                });
+
+                const arrow = document.createElement('span');
+                arrow.className = 'slider_macros_dropdown_arrow';
+                arrow.textContent = '→';
+
+                const valueInput = document.createElement('input');
+                valueInput.type = 'text';
+                valueInput.className = 'text_pole slider_macros_trigger_value';
+                valueInput.placeholder = 'Value';
+                valueInput.value = trigger.value;
+                valueInput.addEventListener('input', () => {
+                    trigger.value = valueInput.value;
+                    debouncedSaveSettings();
+                });
+
+                const createNumberInput = (field: 'priority' | 'cooldown', title: string) => {
+                    const input = document.createElement('input');
+                    input.type = 'number';
+                    input.min = '0';
+                    input.className = 'text_pole slider_macros_trigger_number';
+                    input.title = title;
+                    input.value = String(trigger[field]);
+                    input.addEventListener('input', () => {
+                        trigger[field] = Math.max(0, parseInt(input.value, 10) || 0);
+                        debouncedSaveSettings();
+                    });
+                    return input;
+                };
+
+                const removeBtn = document.createElement('button');
+                removeBtn.type = 'button';
+                removeBtn.className = 'menu_button menu_button_icon slider_macros_btn_remove_option';
+                removeBtn.innerHTML = '<i class="fa-solid fa-times"></i>';
+                removeBtn.title = 'Remove trigger';
+                removeBtn.addEventListener('click', () => {
+                    slider.triggers.splice(triggerIndex, 1);
+                    renderTriggers();
+                    debouncedSaveSettings();
+                });
+
+                row.appendChild(patternInput);
+                row.appendChild(arrow);
+                row.appendChild(valueInput);
+                row.appendChild(createNumberInput('priority', 'Priority (highest matching rule wins)'));
+                row.appendChild(createNumberInput('cooldown', 'Cooldown (messages before it can fire again)'));
+                row.appendChild(removeBtn);
+                triggersContainer.appendChild(row);
+            });
+        };
+
+        renderTriggers();
+
+        if (addTriggerButton) {
+            addTriggerButton.addEventListener('click', () => {
+                slider.triggers.push({ pattern: '', value: '', priority: 0, cooldown: 0 });
+                renderTriggers();
+                debouncedSaveSettings();
+            });
+        }
+
+        // Duplicate button
+        const duplicateButton = renderer.content.querySelector('button[name="duplicate"]') as HTMLButtonElement;
+        if (duplicateButton) {
+            duplicateButton.addEventListener('click', () => {
+                const activeCollection = settings.collections.find(c => c.active);
+                if (!activeCollection) return;
+
+                // Deep clone the slider
+                const newSlider: SliderModel = {
+                    ...slider,
+                    id: generateSliderId(),
+                    name: `${slider.name} Copy`,
+                    property: '', // Leave macro empty for user to set
+                    order: getNextOrder(activeCollection),
+                    // Clone arrays/objects to avoid shared references
+                    options: [...(slider.options || [])],
+                    dropdownOptions: (slider.dropdownOptions || []).map(o => ({ ...o })),
+                    valueMap: (slider.valueMap || []).map(r => ({ ...r })),
+                    triggers: (slider.triggers || []).map(t => ({ ...t })),
+                    schedule: (slider.schedule || []).map(c => ({ ...c })),
+                    conditions: (slider.conditions || []).map(c => ({ ...c })),
+                };
+
+                activeCollection.sliders.push(newSlider);
+                renderSliderConfigs(settings);
+                saveSettingsDebounced();
+            });
+        }
+
+        minInput.addEventListener('input', () => {
+            slider.min = minInput.value;
+            debouncedRender();
+            debouncedSaveSettings();
+        });
+
+        maxInput.addEventListener('input', () => {
+            slider.max = maxInput.value;
+            debouncedRender();
+            debouncedSaveSettings();
+        });
+
+        stepInput.addEventListener('input', () => {
+            slider.step = stepInput.value;
+            debouncedRender();
+            debouncedSaveSettings();
+        });
+
+        enableCheckbox.addEventListener('change', () => {
+            slider.enabled = enableCheckbox.checked;
+            card.dataset.disabled = slider.enabled ? 'false' : 'true';
+            renderCompletionSliders(settings);
+            saveSettingsDebounced();
+        });
+
+        deleteButton.addEventListener('click', async () => {
+            const confirm = await Popup.show.confirm('Delete Slider', `Move the slider "${slider.name}" to the recycle bin?`);
+            if (!confirm) {
+                return;
+            }
+
+            const activeCollection = settings.collections.find(c => c.active);
+            if (!activeCollection) {
+                return;
+            }
+            activeCollection.sliders.splice(index, 1);
+            moveToTrash(settings, { type: 'slider', collection: activeCollection.name, item: slider });
+            renderSliderConfigs(settings);
+            saveSettingsDebounced();
+        });
+
+        upButton.addEventListener('click', () => {
+            const activeCollection = settings.collections.find(c => c.active);
+            if (!activeCollection) {
+                return;
+            }
 
             if (slider.groupId) {
                 // Grouped slider: reorder within group
@@ -2224,17 +3834,20 @@ function renderSliderConfigs(settings: ExtensionSettings): void {
 
             // Delete group
             deleteButton.addEventListener('click', async () => {
-                const confirm = await Popup.show.confirm('Delete Group', `Are you sure you want to delete the group "${group.name}"? Sliders in this group will become ungrouped.`);
+                const confirm = await Popup.show.confirm('Delete Group', `Move the group "${group.name}" to the recycle bin? Sliders in this group will become ungrouped.`);
                 if (!confirm) {
                     return;
                 }
                 // Ungroup all sliders in this group
+                const groupedSliders: string[] = [];
                 activeCollection.sliders.forEach(s => {
                     if (s.groupId === group.id) {
                         s.groupId = null;
+                        groupedSliders.push(getSliderId(s));
                     }
                 });
                 activeCollection.groups.splice(groupIndex, 1);
+                moveToTrash(settings, { type: 'group', collection: activeCollection.name, item: group, groupedSliders });
                 renderSliderConfigs(settings);
                 saveSettingsDebounced();
             });
@@ -2360,17 +3973,49 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
         collectionSelect.id = COLLECTION_SELECT_ID;
         collectionSelect.className = 'text_pole flex1';
         collectionSelect.addEventListener('change', () => {
-            const selectedName = collectionSelect.value;
-            settings.collections.forEach((collection) => {
-                collection.active = collection.name === selectedName;
-            });
-            saveSettingsDebounced();
-            renderSliderConfigs(settings);
+            activateCollection(settings, settings.collections.find(c => c.name === collectionSelect.value));
         });
         collectionRow.appendChild(collectionSelect);
 
+        const resetAllButton = document.createElement('div');
+        resetAllButton.className = 'menu_button menu_button_icon flex0';
+        resetAllButton.title = 'Reset all sliders to defaults';
+        resetAllButton.innerHTML = '<i class="fa-solid fa-rotate-left"></i>';
+        resetAllButton.addEventListener('click', async () => {
+            const activeCollection = settings.collections.find(c => c.active);
+            if (!activeCollection) {
+                return;
+            }
+            const confirm = await Popup.show.confirm('Reset All Sliders', `Reset every slider in "${activeCollection.name}" to its default value?`);
+            if (!confirm) {
+                return;
+            }
+            resetSlidersToDefault(settings, activeCollection.sliders.filter(s => isSliderRenderable(s)));
+        });
+        collectionRow.appendChild(resetAllButton);
+
+        const undoButton = document.createElement('div');
+        undoButton.className = `menu_button menu_button_icon flex0 ${UNDO_BUTTON_CLASS}`;
+        undoButton.title = 'Undo (Ctrl+Z)';
+        undoButton.innerHTML = '<i class="fa-solid fa-arrow-rotate-left"></i>';
+        collectionRow.appendChild(undoButton);
+
+        const redoButton = document.createElement('div');
+        redoButton.className = `menu_button menu_button_icon flex0 ${REDO_BUTTON_CLASS}`;
+        redoButton.title = 'Redo (Ctrl+Y)';
+        redoButton.innerHTML = '<i class="fa-solid fa-arrow-rotate-right"></i>';
+        collectionRow.appendChild(redoButton);
+
         drawerContent.appendChild(collectionRow);
 
+        updateHistoryButtons();
+
+        // Create snapshot bar (populated on every render)
+        const snapshotBar = document.createElement('div');
+        snapshotBar.id = SNAPSHOT_BAR_ID;
+        snapshotBar.className = 'slider_macros_snapshot_bar';
+        drawerContent.appendChild(snapshotBar);
+
         // Create new container
         container = document.createElement('div');
         container.id = CONTAINER_ID;
@@ -2426,10 +4071,12 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
         return;
     }
 
+    refreshSnapshotBar(settings);
+
     // Helper function to render a single slider to a target container
     const renderSliderToContainer = (slider: SliderModel, targetContainer: HTMLElement) => {
-        // Use the renderable check helper for both macro and variable mode sliders
-        if (!isSliderRenderable(slider)) {
+        // Use the renderable check helper for both macro and variable mode sliders, skipping sliders hidden by their conditions
+        if (!isSliderShown(activeCollection, slider)) {
             return;
         }
 
@@ -2456,6 +4103,12 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
         titleElement.textContent = slider.name;
         console.log(`Rendering slider: ${slider.name} (${slider.type}) [${slider.sliderMode || 'macro'} mode]`);
 
+        // Reset to default button next to the slider title
+        const resetButton = document.createElement('i');
+        resetButton.className = 'fa-solid fa-rotate-left slider_macros_reset_btn';
+        resetButton.title = 'Reset to default';
+        resetButton.addEventListener('click', () => resetSlidersToDefault(settings, [slider]));
+
         // --- Numeric Slider Logic ---
         if (slider.type === 'Numeric' || !slider.type) { // Default to Numeric
             if (slider.value < parseFloat(slider.min)) {
@@ -2485,9 +4138,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
             const inputEventListener = () => {
                 slider.value = parseFloat(sliderInput.value);
                 numberInput.value = sliderInput.value;
-                syncSliderToVariable(slider);
-                saveSettingsDebounced();
-                updateSliderMacros(settings);
+                commitSliderChange(settings, slider);
             };
             sliderInput.addEventListener('input', inputEventListener);
             $(sliderInput).on('input', inputEventListener);
@@ -2538,9 +4189,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
                 (slider.value as any) = isTrue ? 1 : 0;
                 valueDisplay.textContent = isTrue ? 'True' : 'False';
 
-                syncSliderToVariable(slider);
-                saveSettingsDebounced();
-                updateSliderMacros(settings);
+                commitSliderChange(settings, slider);
             };
             sliderInput.addEventListener('input', inputEventListener);
             $(sliderInput).on('input', inputEventListener);
@@ -2594,9 +4243,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
                 const text = validOptions[index] || '';
                 valueDisplay.textContent = formatOption(text);
                 valueDisplay.title = text;
-                syncSliderToVariable(slider);
-                saveSettingsDebounced();
-                updateSliderMacros(settings);
+                commitSliderChange(settings, slider);
             };
 
             sliderInput.addEventListener('input', inputEventListener);
@@ -2642,9 +4289,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
 
                 selectElement.addEventListener('change', () => {
                     slider.value = selectElement.value;
-                    syncSliderToVariable(slider);
-                    saveSettingsDebounced();
-                    updateSliderMacros(settings);
+                    commitSliderChange(settings, slider);
                 });
 
                 rangeContainer.appendChild(selectElement);
@@ -2685,9 +4330,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
                 const updateFromColor = () => {
                     slider.value = colorInput.value;
                     hexDisplay.value = colorInput.value.toUpperCase();
-                    syncSliderToVariable(slider);
-                    saveSettingsDebounced();
-                    updateSliderMacros(settings);
+                    commitSliderChange(settings, slider);
                 };
 
                 const updateFromHex = () => {
@@ -2696,9 +4339,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
                     if (/^#[0-9A-Fa-f]{6}$/.test(hex)) {
                         colorInput.value = hex;
                         slider.value = hex;
-                        syncSliderToVariable(slider);
-                        saveSettingsDebounced();
-                        updateSliderMacros(settings);
+                        commitSliderChange(settings, slider);
                     }
                 };
 
@@ -2743,9 +4384,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
                 checkboxInput.addEventListener('change', () => {
                     slider.value = checkboxInput.checked;
                     checkboxText.textContent = checkboxInput.checked ? (slider.checkboxTrueValue || 'true') : (slider.checkboxFalseValue || 'false');
-                    syncSliderToVariable(slider);
-                    saveSettingsDebounced();
-                    updateSliderMacros(settings);
+                    commitSliderChange(settings, slider);
                 });
 
                 checkboxLabel.appendChild(checkboxInput);
@@ -2759,6 +4398,124 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
             }
         }
 
+        // --- Tags Logic ---
+        else if (slider.type === 'Tags') {
+            const rangeContainer = renderer.content.querySelector('.range-block-range') as HTMLDivElement;
+            const counterContainer = renderer.content.querySelector('.range-block-counter') as HTMLDivElement;
+
+            const validOptions = (slider.dropdownOptions || []).filter(o => o.key.trim() !== '');
+            if (validOptions.length < 1) {
+                titleElement.textContent += ' (Config Error: No Options)';
+                return;
+            }
+
+            // Hide the range slider, use toggle chips instead
+            if (rangeContainer) {
+                rangeContainer.innerHTML = '';
+                rangeContainer.style.flex = '1';
+
+                const chipList = document.createElement('div');
+                chipList.id = sliderId;
+                chipList.className = 'slider_macros_tag_list';
+
+                validOptions.forEach((opt) => {
+                    const chip = document.createElement('button');
+                    chip.type = 'button';
+                    chip.className = 'menu_button slider_macros_tag_chip';
+                    chip.textContent = opt.key;
+                    chip.title = opt.value || opt.key;
+                    chip.classList.toggle('active', getSelectedTags(slider).includes(opt.key));
+
+                    chip.addEventListener('click', () => {
+                        const selected = getSelectedTags(slider);
+                        const next = selected.includes(opt.key)
+                            ? selected.filter(k => k !== opt.key)
+                            : [...selected, opt.key];
+                        // Store in option order so the output order follows the option list
+                        slider.value = validOptions.map(o => o.key).filter(k => next.includes(k)).join('\n');
+                        chip.classList.toggle('active', next.includes(opt.key));
+                        commitSliderChange(settings, slider);
+                    });
+
+                    chipList.appendChild(chip);
+                });
+
+                rangeContainer.appendChild(chipList);
+            }
+
+            // Hide the counter
+            if (counterContainer) {
+                counterContainer.style.display = 'none';
+            }
+        }
+
+        // --- Text / Textarea Logic ---
+        else if (slider.type === 'Text' || slider.type === 'Textarea') {
+            const rangeContainer = renderer.content.querySelector('.range-block-range') as HTMLDivElement;
+            const counterContainer = renderer.content.querySelector('.range-block-counter') as HTMLDivElement;
+
+            // Hide the range slider, use a text field instead
+            if (rangeContainer) {
+                rangeContainer.innerHTML = '';
+                rangeContainer.style.flex = '1';
+
+                let textInput: HTMLInputElement | HTMLTextAreaElement;
+                if (slider.type === 'Textarea') {
+                    textInput = document.createElement('textarea');
+                    textInput.className = 'text_pole slider_macros_textarea_input';
+                    textInput.rows = 3;
+                    // Prevent Enter key from being captured by parent handlers (e.g., SillyTavern's chat submit)
+                    textInput.addEventListener('keydown', (e) => {
+                        if ((e as KeyboardEvent).key === 'Enter') {
+                            e.stopPropagation();
+                        }
+                    });
+                } else {
+                    textInput = document.createElement('input');
+                    textInput.type = 'text';
+                    textInput.className = 'text_pole slider_macros_text_input';
+                }
+                textInput.id = sliderId;
+                textInput.value = String(slider.value ?? '');
+
+                // Macros read the value live while typing; the full commit (variables, scoped values, re-render) waits for blur
+                textInput.addEventListener('input', () => {
+                    slider.value = textInput.value;
+                });
+                textInput.addEventListener('change', () => {
+                    slider.value = textInput.value;
+                    commitSliderChange(settings, slider);
+                });
+
+                rangeContainer.appendChild(textInput);
+            }
+
+            // Hide the counter
+            if (counterContainer) {
+                counterContainer.style.display = 'none';
+            }
+        }
+
+        titleElement.appendChild(resetButton);
+
+        // Sweep button: generate one swipe per value of this slider
+        const sweepButton = document.createElement('i');
+        sweepButton.className = 'fa-solid fa-layer-group slider_macros_sweep_btn';
+        sweepButton.title = 'Sweep: generate one swipe per value';
+        sweepButton.addEventListener('click', () => promptParameterSweep(settings, slider));
+        titleElement.appendChild(sweepButton);
+
+        // Conditions not met but effect is 'disable': render greyed out and non-interactive
+        if (!isSliderConditionMet(activeCollection, slider)) {
+            const block = renderer.content.querySelector('.range-block') as HTMLDivElement;
+            block?.classList.add('slider_macros_condition_disabled');
+            renderer.content.querySelectorAll('input, select, textarea').forEach((el) => {
+                (el as HTMLInputElement).disabled = true;
+            });
+            resetButton.remove();
+            sweepButton.remove();
+        }
+
         targetContainer.appendChild(renderer.content);
     };
 
@@ -2772,7 +4529,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
     // Add groups (only if they have renderable sliders)
     activeCollection.groups.forEach((group) => {
         const slidersInGroup = activeCollection.sliders.filter(s => s.groupId === group.id);
-        const enabledCount = slidersInGroup.filter(s => isSliderRenderable(s)).length;
+        const enabledCount = slidersInGroup.filter(s => isSliderShown(activeCollection, s)).length;
         if (enabledCount > 0) {
             completionItems.push({ type: 'group', group });
         }
@@ -2780,7 +4537,7 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
 
     // Add ungrouped sliders (only if renderable)
     activeCollection.sliders.forEach((slider) => {
-        if (!slider.groupId && isSliderRenderable(slider)) {
+        if (!slider.groupId && isSliderShown(activeCollection, slider)) {
             completionItems.push({ type: 'slider', slider });
         }
     });
@@ -2821,12 +4578,21 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
 
             const groupCount = document.createElement('span');
             groupCount.className = 'slider_macros_group_count';
-            const enabledCount = slidersInGroup.filter(s => isSliderRenderable(s)).length;
+            const enabledCount = slidersInGroup.filter(s => isSliderShown(activeCollection, s)).length;
             groupCount.textContent = `(${enabledCount})`;
 
+            const groupReset = document.createElement('i');
+            groupReset.className = 'fa-solid fa-rotate-left slider_macros_reset_btn';
+            groupReset.title = 'Reset group to defaults';
+            groupReset.addEventListener('click', (e) => {
+                e.stopPropagation();
+                resetSlidersToDefault(settings, slidersInGroup.filter(s => isSliderRenderable(s)));
+            });
+
             groupHeader.appendChild(groupChevron);
             groupHeader.appendChild(groupName);
             groupHeader.appendChild(groupCount);
+            groupHeader.appendChild(groupReset);
 
             // Toggle collapse on header click
             groupHeader.addEventListener('click', () => {
@@ -2854,6 +4620,16 @@ function renderCompletionSliders(settings: ExtensionSettings): void {
     updateSliderMacros(settings);
 }
 
+// ============================================================================
+// API Request Parameters
+// ============================================================================
+
+/**
+ * Merges a YAML mapping (or a list of mappings) into an object. Invalid YAML is ignored.
+ * @param obj - The object to merge into (mutated in place)
+ * @param yamlString - The YAML source
+ * @returns The same object
+ */
 function mergeYamlIntoObject(obj: object, yamlString: string) {
     if (!yamlString) {
         return obj;
@@ -2879,141 +4655,3678 @@ function mergeYamlIntoObject(obj: object, yamlString: string) {
     return obj;
 }
 
+/**
+ * Converts a parameter-mode slider to the value sent in the request body.
+ * Numeric, Boolean and Checkbox sliders send a number/boolean; other types send their output,
+ * parsed as JSON when possible so Dropdown values like `0.5`, `true` or `["\n"]` keep their type.
+ * @param slider - The parameter-mode slider
+ * @param collection - The collection the slider belongs to
+ * @returns The value to send
+ */
+function getSliderParameterValue(slider: SliderModel, collection: SliderCollection): unknown {
+    switch (slider.type) {
+        case 'Numeric':
+            return Number(getEffectiveSliderValue(slider));
+        case 'Boolean':
+            return getEffectiveSliderValue(slider) === 1;
+        case 'Checkbox':
+            return getEffectiveSliderValue(slider) === true;
+    }
 
+    const output = createSliderValueHandler(slider, collection)();
+    try {
+        return JSON.parse(output);
+    } catch {
+        return output;
+    }
+}
 
-
-// This function is used to update the macros based on the current slider settings above.
-function updateSliderMacros(settings: ExtensionSettings) {
+/**
+ * Collects the request parameters of all enabled parameter-mode sliders in the active collection.
+ * Sliders whose conditions are not met and that are set to output nothing are left out.
+ * @param settings - Extension settings containing slider collections
+ * @returns Parameter name to value map
+ */
+function collectSliderParameters(settings: ExtensionSettings): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
     const activeCollection = settings.collections.find(c => c.active);
     if (!activeCollection) {
-        return;
+        return params;
     }
-    // Loop through each slider in the active collection and register it as a macro.
+
     activeCollection.sliders.forEach((slider) => {
-        if (!slider.enabled || !slider.property) {
+        if (slider.sliderMode !== 'parameter' || !isSliderRenderable(slider)) {
             return;
         }
-
-        // Skip macro registration for sliders in "variable" mode
-        if (slider.sliderMode === 'variable') {
-            console.debug(`[SliderMacros] Skipping macro registration for "${slider.name}" - variable mode`);
+        if (slider.emptyWhenHidden && !isSliderConditionMet(activeCollection, slider)) {
             return;
         }
-
-        let macroHandler: () => string;
-
-        if (slider.type === 'MultiSelect') {
-            const validOptions = (slider.options || []).filter(o => o.trim() !== '');
-            macroHandler = () => validOptions[slider.value as number] || '';
-        } else if (slider.type === 'Boolean') {
-            // 1 = True, 0 = False
-            macroHandler = () => (slider.value === 1 ? 'true' : 'false');
-        } else if (slider.type === 'Dropdown') {
-            // Dropdown: value is the selected key, output is the mapped value
-            macroHandler = () => {
-                const selectedKey = slider.value as string;
-                const option = (slider.dropdownOptions || []).find(o => o.key === selectedKey);
-                return option ? option.value : selectedKey;
-            };
-        } else if (slider.type === 'Color') {
-            // Color: convert hex to the configured format
-            macroHandler = () => {
-                const hex = (slider.value as string) || '#ffffff';
-                return formatColor(hex, slider.colorFormat || 'hex');
-            };
-        } else if (slider.type === 'Checkbox') {
-            // Checkbox: output configured true/false values
-            macroHandler = () => {
-                return slider.value === true
-                    ? (slider.checkboxTrueValue || 'true')
-                    : (slider.checkboxFalseValue || 'false');
-            };
-        } else {
-            macroHandler = () => slider.value.toString();
-        }
-        const description = `Slider Macro: ${slider.name}`;
-        if (power_user.experimental_macro_engine) {
-            macros.register(slider.property, {
-                category: macros.category.PROMPTS,
-                description: description,
-                handler: macroHandler,
-            });
-            // Fallback for old macro engine.Remove this once the experimental macro engine is the default.
-        } else {
-            MacrosParser.registerMacro(slider.property, macroHandler, description);
-        }
+        params[slider.property.trim()] = getSliderParameterValue(slider, activeCollection);
     });
+
+    return params;
 }
 
-// Color format conversion utilities
-function formatColor(hex: string, format: 'hex' | 'rgb' | 'hsv'): string {
-    // Ensure valid hex
-    if (!/^#[0-9A-Fa-f]{6}$/.test(hex)) {
-        hex = '#ffffff';
+/**
+ * Merges slider parameters into an outgoing generation request.
+ * When the request carries a `custom_include_body` (YAML), the parameters are merged into it so the backend
+ * forwards them as-is; otherwise they are set directly on the payload.
+ * @param settings - Extension settings containing slider collections
+ * @param data - The generation request payload (mutated in place)
+ */
+function applySliderParameters(settings: ExtensionSettings, data: ChatCompletionRequestData | TextCompletionRequestData): void {
+    const params = collectSliderParameters(settings);
+    if (Object.keys(params).length === 0) {
+        return;
     }
 
-    if (format === 'hex') {
+    if (typeof data.custom_include_body === 'string') {
+        const body = mergeYamlIntoObject({}, data.custom_include_body);
+        Object.assign(body, params);
+        data.custom_include_body = yaml.stringify(body);
+    } else {
+        Object.assign(data, params);
+    }
+    console.debug('[SliderMacros] Added slider parameters to request:', params);
+}
+
+// ============================================================================
+// End API Request Parameters
+// ============================================================================
+
+// ============================================================================
+// Prompt Injection
+// ============================================================================
+
+// Numeric values of SillyTavern's extension_prompt_types and extension_prompt_roles
+const INJECTION_POSITIONS: Record<PromptInjection['position'], number> = { in_prompt: 0, in_chat: 1, before_prompt: 2 };
+const INJECTION_ROLES: Record<PromptInjection['role'], number> = { system: 0, user: 1, assistant: 2 };
+
+/**
+ * Creates the prompt injection settings for a new collection (disabled, in chat at depth 4 as system).
+ * @returns A fresh prompt injection settings object
+ */
+function createDefaultInjection(): PromptInjection {
+    return {
+        enabled: false,
+        position: 'in_chat',
+        depth: 4,
+        role: 'system',
+        template: '{{sliders}}',
+    };
+}
+
+/**
+ * Builds the text injected for a collection. Each slider registered as a macro contributes a "Name: output" line,
+ * using the same handler as its macro; sliders with empty output are left out.
+ * @param collection - The collection to build the block for
+ * @returns The text to inject, or '' if there is nothing to inject
+ */
+function buildInjectionText(collection: SliderCollection): string {
+    const lines = collection.sliders
+        .filter(slider => slider.enabled && slider.property && slider.sliderMode !== 'variable' && slider.sliderMode !== 'parameter')
+        .map(slider => ({ slider, output: createSliderMacroHandler(slider, collection)() }))
+        .filter(({ output }) => output.trim() !== '')
+        .map(({ slider, output }) => `${slider.name || slider.property}: ${output}`);
+
+    if (lines.length === 0) {
+        return '';
+    }
+
+    const template = collection.injection.template || '{{sliders}}';
+    return template.replace(/\{\{sliders\}\}/gi, lines.join('\n')).trim();
+}
+
+/**
+ * Sets (or clears) the extension prompt holding the active collection's slider values.
+ * Other macros in the template are resolved by SillyTavern when the prompt is built.
+ * @param settings - Extension settings containing slider collections
+ */
+function updatePromptInjection(settings: ExtensionSettings): void {
+    const { setExtensionPrompt } = SillyTavern.getContext();
+    if (typeof setExtensionPrompt !== 'function') {
+        return;
+    }
+
+    const activeCollection = settings.collections.find(c => c.active);
+    const injection = activeCollection?.injection;
+    if (!activeCollection || !injection?.enabled) {
+        setExtensionPrompt(MODULE_NAME, '', INJECTION_POSITIONS.in_prompt, 0);
+        return;
+    }
+
+    setExtensionPrompt(
+        MODULE_NAME,
+        buildInjectionText(activeCollection),
+        INJECTION_POSITIONS[injection.position] ?? INJECTION_POSITIONS.in_chat,
+        Math.max(0, Number(injection.depth) || 0),
+        false,
+        INJECTION_ROLES[injection.role] ?? INJECTION_ROLES.system,
+    );
+}
+
+// ============================================================================
+// End Prompt Injection
+// ============================================================================
+
+
+
+
+/**
+ * Builds the macro handler for a slider, which resolves the slider's current value to its macro output.
+ * The handler reads the slider lazily, so it always reflects the latest value.
+ * When a collection is given and the slider is set to output nothing while hidden, the handler checks its conditions.
+ * @param slider - The slider to build a handler for
+ * @param collection - The collection the slider belongs to (needed for conditional output)
+ * @returns A function returning the slider's macro output
+ */
+function createSliderMacroHandler(slider: SliderModel, collection?: SliderCollection): () => string {
+    const valueHandler = createSliderValueHandler(slider, collection);
+    if (!collection || !slider.emptyWhenHidden || !(slider.conditions || []).length) {
+        return valueHandler;
+    }
+    return () => isSliderConditionMet(collection, slider) ? valueHandler() : '';
+}
+
+/**
+ * Builds the handler that formats a slider's current value according to its type.
+ * @param slider - The slider to build a handler for
+ * @param collection - The collection the slider belongs to (Computed sliders need it to resolve references)
+ * @returns A function returning the formatted value
+ */
+function createSliderValueHandler(slider: SliderModel, collection?: SliderCollection): () => string {
+    if (slider.randomize && isRandomizableSlider(slider)) {
+        // Roll per generation: format the value rolled for the current generation instead of the stored one
+        return () => createSliderValueHandler({ ...slider, value: getEffectiveSliderValue(slider), randomize: false }, collection)();
+    }
+    if (slider.type === 'Computed') {
+        // Computed: evaluated lazily on every macro call so it follows the sliders it references
+        return () => {
+            if (!collection) return '';
+            try {
+                return evaluateComputedSlider(collection, slider);
+            } catch (e) {
+                console.warn(`[SliderMacros] Failed to evaluate computed slider "${slider.name}":`, e);
+                return '';
+            }
+        };
+    } else if (slider.type === 'MultiSelect') {
+        const validOptions = (slider.options || []).filter(o => o.trim() !== '');
+        return () => validOptions[slider.value as number] || '';
+    } else if (slider.type === 'Boolean') {
+        // 1 = True, 0 = False
+        return () => (slider.value === 1 ? 'true' : 'false');
+    } else if (slider.type === 'Dropdown') {
+        // Dropdown: value is the selected key, output is the mapped value
+        return () => {
+            const selectedKey = slider.value as string;
+            const option = (slider.dropdownOptions || []).find(o => o.key === selectedKey);
+            return option ? option.value : selectedKey;
+        };
+    } else if (slider.type === 'Color') {
+        // Color: convert hex to the configured format
+        return () => {
+            const hex = (slider.value as string) || '#ffffff';
+            return formatColor(hex, slider.colorFormat || 'hex');
+        };
+    } else if (slider.type === 'Checkbox') {
+        // Checkbox: output configured true/false values
+        return () => {
+            return slider.value === true
+                ? (slider.checkboxTrueValue || 'true')
+                : (slider.checkboxFalseValue || 'false');
+        };
+    } else if (slider.type === 'Text' || slider.type === 'Textarea') {
+        // Text: output the entered text as is
+        return () => String(slider.value ?? '');
+    } else if (slider.type === 'Tags') {
+        // Tags: join the mapped values of all selected options
+        return () => formatTagsOutput(slider);
+    }
+    return () => formatNumericOutput(slider);
+}
+
+/**
+ * Gets the option keys currently selected on a Tags slider, in option order.
+ * Keys no longer present in the option list are ignored.
+ * @param slider - The Tags slider
+ * @returns The selected option keys
+ */
+function getSelectedTags(slider: SliderModel): string[] {
+    const selected = String(slider.value ?? '').split('\n');
+    return (slider.dropdownOptions || [])
+        .filter(o => o.key.trim() !== '' && selected.includes(o.key))
+        .map(o => o.key);
+}
+
+/**
+ * Formats a Tags slider's selection for macro output, e.g. "a, b and c".
+ * Each tag outputs its mapped value (or its key when the value is empty).
+ * @param slider - The Tags slider
+ * @returns The joined list wrapped in the prefix/suffix, or '' when nothing is selected
+ */
+function formatTagsOutput(slider: SliderModel): string {
+    const items = getSelectedTags(slider).map((key) => {
+        const option = slider.dropdownOptions.find(o => o.key === key);
+        return option?.value || key;
+    });
+    if (items.length === 0) {
+        return '';
+    }
+
+    const separator = slider.tagSeparator ?? ', ';
+    const lastSeparator = slider.tagLastSeparator || separator;
+    const joined = items.length === 1
+        ? items[0]
+        : items.slice(0, -1).join(separator) + lastSeparator + items[items.length - 1];
+    return `${slider.tagPrefix || ''}${joined}${slider.tagSuffix || ''}`;
+}
+
+/**
+ * Formats a Numeric slider's value for macro output.
+ * A matching value map range wins; otherwise the number is formatted (percent, decimals) and wrapped in prefix/suffix.
+ * @param slider - The Numeric slider
+ * @returns The formatted output
+ */
+function formatNumericOutput(slider: SliderModel): string {
+    const value = Number(slider.value);
+
+    const range = (slider.valueMap || []).find((r) => {
+        const min = r.min.trim() === '' ? -Infinity : parseFloat(r.min);
+        const max = r.max.trim() === '' ? Infinity : parseFloat(r.max);
+        return !isNaN(min) && !isNaN(max) && value >= min && value <= max;
+    });
+    if (range) {
+        return range.text;
+    }
+
+    let number = slider.outputPercent ? value * 100 : value;
+    const decimals = parseInt(slider.outputDecimals, 10);
+    let text: string;
+    if (!isNaN(decimals) && decimals >= 0) {
+        text = number.toFixed(Math.min(decimals, 20));
+    } else {
+        // Round away floating point noise introduced by percent conversion
+        number = parseFloat(number.toFixed(10));
+        text = number.toString();
+    }
+    if (slider.outputPercent) {
+        text += '%';
+    }
+    return `${slider.outputPrefix || ''}${text}${slider.outputSuffix || ''}`;
+}
+
+// ============================================================================
+// Computed Expressions
+// ============================================================================
+
+type ExpressionValue = number | string | boolean;
+
+interface ExpressionToken {
+    type: 'number' | 'string' | 'ref' | 'ident' | 'op';
+    text: string;
+}
+
+// Computed sliders currently being evaluated, used to detect circular references
+const computedEvaluationStack = new Set<SliderModel>();
+
+/**
+ * Splits an expression into tokens.
+ * @param source - The expression source
+ * @returns The token list
+ */
+function tokenizeExpression(source: string): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    const operators = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Slider or macro reference: {{name}}
+        if (source.startsWith('{{', i)) {
+            const end = source.indexOf('}}', i + 2);
+            if (end === -1) throw new Error('Unclosed {{ reference');
+            tokens.push({ type: 'ref', text: source.slice(i + 2, end).trim() });
+            i = end + 2;
+            continue;
+        }
+
+        const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+        if (numberMatch) {
+            tokens.push({ type: 'number', text: numberMatch[0] });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === '\'') {
+            let text = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== char) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    const escaped = source[j + 1];
+                    text += escaped === 'n' ? '\n' : escaped;
+                    j += 2;
+                } else {
+                    text += source[j];
+                    j++;
+                }
+            }
+            if (j >= source.length) throw new Error('Unclosed string');
+            tokens.push({ type: 'string', text });
+            i = j + 1;
+            continue;
+        }
+
+        const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+        if (identMatch) {
+            tokens.push({ type: 'ident', text: identMatch[0] });
+            i += identMatch[0].length;
+            continue;
+        }
+
+        const operator = operators.find(op => source.startsWith(op, i));
+        if (operator) {
+            tokens.push({ type: 'op', text: operator });
+            i += operator.length;
+            continue;
+        }
+
+        throw new Error(`Unexpected character "${char}"`);
+    }
+
+    return tokens;
+}
+
+function toExpressionNumber(value: ExpressionValue): number {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() === '') return NaN;
+    return Number(value);
+}
+
+function toExpressionBoolean(value: ExpressionValue): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    const lower = value.trim().toLowerCase();
+    if (lower === '' || lower === 'false') return false;
+    const num = Number(lower);
+    return isNaN(num) ? true : num !== 0;
+}
+
+function toExpressionString(value: ExpressionValue): string {
+    if (typeof value === 'number') {
+        // Round away floating point noise (0.1 + 0.2 => 0.3)
+        return parseFloat(value.toFixed(10)).toString();
+    }
+    return String(value);
+}
+
+/**
+ * Compares two expression values: numerically when both look like numbers, otherwise as strings.
+ */
+function compareExpressionValues(a: ExpressionValue, b: ExpressionValue): number {
+    const numA = toExpressionNumber(a);
+    const numB = toExpressionNumber(b);
+    if (!isNaN(numA) && !isNaN(numB)) {
+        return numA - numB;
+    }
+    return toExpressionString(a).localeCompare(toExpressionString(b));
+}
+
+const expressionFunctions: Record<string, (args: ExpressionValue[]) => ExpressionValue> = {
+    round: ([x, digits]) => {
+        const factor = Math.pow(10, digits === undefined ? 0 : toExpressionNumber(digits));
+        return Math.round(toExpressionNumber(x) * factor) / factor;
+    },
+    floor: ([x]) => Math.floor(toExpressionNumber(x)),
+    ceil: ([x]) => Math.ceil(toExpressionNumber(x)),
+    abs: ([x]) => Math.abs(toExpressionNumber(x)),
+    min: (args) => Math.min(...args.map(toExpressionNumber)),
+    max: (args) => Math.max(...args.map(toExpressionNumber)),
+    clamp: ([x, lo, hi]) => Math.min(toExpressionNumber(hi), Math.max(toExpressionNumber(lo), toExpressionNumber(x))),
+    if: ([condition, a, b]) => toExpressionBoolean(condition) ? a : (b ?? ''),
+    upper: ([x]) => toExpressionString(x).toUpperCase(),
+    lower: ([x]) => toExpressionString(x).toLowerCase(),
+    // lookup(key, k1, v1, k2, v2, ..., [fallback]) - returns the value paired with the first matching key
+    lookup: ([key, ...pairs]) => {
+        for (let i = 0; i + 1 < pairs.length; i += 2) {
+            if (compareExpressionValues(key, pairs[i]) === 0) {
+                return pairs[i + 1];
+            }
+        }
+        return pairs.length % 2 === 1 ? pairs[pairs.length - 1] : '';
+    },
+};
+
+/**
+ * Evaluates an expression over a collection's sliders.
+ * Supports numbers, strings, true/false, {{references}}, arithmetic (+ - * / %), comparisons,
+ * && || !, the ternary operator and the functions in expressionFunctions. `+` concatenates if either side isn't numeric.
+ * && || and ?: short-circuit: the side that isn't used is parsed but not evaluated, so it can't fail.
+ * References resolve to a slider's value, falling back to any other macro (e.g. {{char}}).
+ * No JavaScript is ever evaluated.
+ * @param source - The expression source
+ * @param resolveRef - Resolves a {{reference}} to its value
+ * @returns The expression result
+ */
+function evaluateExpression(source: string, resolveRef: (name: string) => ExpressionValue): ExpressionValue {
+    const tokens = tokenizeExpression(source);
+    let position = 0;
+
+    const peek = (): ExpressionToken | undefined => tokens[position];
+    const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek()!.text);
+    const expectOp = (op: string) => {
+        if (!isOp(op)) throw new Error(`Expected "${op}"${peek() ? ` but found "${peek()!.text}"` : ' at end of expression'}`);
+        position++;
+    };
+
+    // Above zero while parsing a branch whose value isn't used: references and functions in it aren't evaluated
+    let skipDepth = 0;
+    const parseSkipped = (parse: () => ExpressionValue): ExpressionValue => {
+        skipDepth++;
+        try {
+            return parse();
+        } finally {
+            skipDepth--;
+        }
+    };
+
+    const parseTernary = (): ExpressionValue => {
+        const condition = parseOr();
+        if (!isOp('?')) return condition;
+        position++;
+        const useTrue = toExpressionBoolean(condition);
+        const whenTrue = useTrue ? parseTernary() : parseSkipped(parseTernary);
+        expectOp(':');
+        const whenFalse = useTrue ? parseSkipped(parseTernary) : parseTernary();
+        return useTrue ? whenTrue : whenFalse;
+    };
+
+    const parseOr = (): ExpressionValue => {
+        let left = parseAnd();
+        while (isOp('||')) {
+            position++;
+            const leftTrue = toExpressionBoolean(left);
+            const right = leftTrue ? parseSkipped(parseAnd) : parseAnd();
+            left = leftTrue || toExpressionBoolean(right);
+        }
+        return left;
+    };
+
+    const parseAnd = (): ExpressionValue => {
+        let left = parseEquality();
+        while (isOp('&&')) {
+            position++;
+            const leftTrue = toExpressionBoolean(left);
+            const right = leftTrue ? parseEquality() : parseSkipped(parseEquality);
+            left = leftTrue && toExpressionBoolean(right);
+        }
+        return left;
+    };
+
+    const parseEquality = (): ExpressionValue => {
+        let left = parseComparison();
+        while (isOp('==', '!=')) {
+            const op = tokens[position++].text;
+            const right = parseComparison();
+            const equal = compareExpressionValues(left, right) === 0;
+            left = op === '==' ? equal : !equal;
+        }
+        return left;
+    };
+
+    const parseComparison = (): ExpressionValue => {
+        let left = parseAdditive();
+        while (isOp('<', '>', '<=', '>=')) {
+            const op = tokens[position++].text;
+            const diff = compareExpressionValues(left, parseAdditive());
+            left = op === '<' ? diff < 0 : op === '>' ? diff > 0 : op === '<=' ? diff <= 0 : diff >= 0;
+        }
+        return left;
+    };
+
+    const parseAdditive = (): ExpressionValue => {
+        let left = parseMultiplicative();
+        while (isOp('+', '-')) {
+            const op = tokens[position++].text;
+            const right = parseMultiplicative();
+            const numLeft = toExpressionNumber(left);
+            const numRight = toExpressionNumber(right);
+            if (op === '+' && (isNaN(numLeft) || isNaN(numRight))) {
+                left = toExpressionString(left) + toExpressionString(right);
+            } else {
+                left = op === '+' ? numLeft + numRight : numLeft - numRight;
+            }
+        }
+        return left;
+    };
+
+    const parseMultiplicative = (): ExpressionValue => {
+        let left = parseUnary();
+        while (isOp('*', '/', '%')) {
+            const op = tokens[position++].text;
+            const numLeft = toExpressionNumber(left);
+            const numRight = toExpressionNumber(parseUnary());
+            left = op === '*' ? numLeft * numRight : op === '/' ? numLeft / numRight : numLeft % numRight;
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionValue => {
+        if (isOp('!')) {
+            position++;
+            return !toExpressionBoolean(parseUnary());
+        }
+        if (isOp('-')) {
+            position++;
+            return -toExpressionNumber(parseUnary());
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionValue => {
+        const token = peek();
+        if (!token) throw new Error('Unexpected end of expression');
+        position++;
+
+        switch (token.type) {
+            case 'number':
+                return Number(token.text);
+            case 'string':
+                return token.text;
+            case 'ref':
+                return skipDepth > 0 ? '' : resolveRef(token.text);
+            case 'ident': {
+                if (token.text === 'true') return true;
+                if (token.text === 'false') return false;
+                const fn = expressionFunctions[token.text];
+                if (!fn) throw new Error(`Unknown function "${token.text}"`);
+                expectOp('(');
+                const args: ExpressionValue[] = [];
+                if (!isOp(')')) {
+                    args.push(parseTernary());
+                    while (isOp(',')) {
+                        position++;
+                        args.push(parseTernary());
+                    }
+                }
+                expectOp(')');
+                return skipDepth > 0 ? '' : fn(args);
+            }
+            default:
+                if (token.text === '(') {
+                    const inner = parseTernary();
+                    expectOp(')');
+                    return inner;
+                }
+                throw new Error(`Unexpected "${token.text}"`);
+        }
+    };
+
+    if (tokens.length === 0) {
+        return '';
+    }
+    const result = parseTernary();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position].text}"`);
+    }
+    return result;
+}
+
+/**
+ * Evaluates a Computed slider's expression against the other sliders in its collection.
+ * @param collection - The collection the slider belongs to
+ * @param slider - The Computed slider
+ * @returns The formatted result
+ * @throws If the expression is invalid or references itself
+ */
+function evaluateComputedSlider(collection: SliderCollection, slider: SliderModel): string {
+    if (computedEvaluationStack.has(slider)) {
+        throw new Error(`Circular reference in computed slider "${slider.name}"`);
+    }
+
+    computedEvaluationStack.add(slider);
+    try {
+        const result = evaluateExpression(slider.expression || '', (name) => {
+            const target = findSlider(collection, name);
+            if (target) {
+                if (target.type === 'Computed') {
+                    return evaluateComputedSlider(collection, target);
+                }
+                // The raw number, not the macro output: output formatting (%, prefix/suffix, value map) would break arithmetic
+                if (target.type === 'Numeric') {
+                    return Number(getEffectiveSliderValue(target));
+                }
+                return createSliderValueHandler(target, collection)();
+            }
+            const value = getMacroValue(name);
+            return value === `{{${name}}}` ? '' : value;
+        });
+        return toExpressionString(result);
+    } finally {
+        computedEvaluationStack.delete(slider);
+    }
+}
+
+// ============================================================================
+// End Computed Expressions
+// ============================================================================
+
+// ============================================================================
+// Macro Registration Ledger
+// ============================================================================
+
+interface MacroLedgerEntry {
+    engine: 'v2' | 'legacy';
+    // Definition that existed before we first registered this name (null if the macro was new)
+    original: unknown | null;
+    originalDescription: string;
+}
+
+// Every macro name this extension currently has registered, keyed by macro name
+const macroLedger = new Map<string, MacroLedgerEntry>();
+
+/**
+ * Captures the current definition of a macro so it can be restored once we stop overriding it.
+ * @param macroName - The macro name
+ * @param engine - The macro engine we are about to register with
+ * @returns The original definition and description, or null definition if the macro didn't exist
+ */
+function captureOriginalMacro(macroName: string, engine: 'v2' | 'legacy'): { original: unknown | null; description: string } {
+    try {
+        if (engine === 'v2') {
+            const def = macros?.registry?.getMacro?.(macroName);
+            if (def) {
+                return { original: def, description: def.description || '' };
+            }
+        } else if (MacrosParser && typeof MacrosParser[Symbol.iterator] === 'function') {
+            for (const item of MacrosParser) {
+                if (item.key === macroName) {
+                    return { original: item.value, description: item.description || '' };
+                }
+            }
+        }
+    } catch (e) {
+        console.warn(`[SliderMacros] Failed to capture original definition of macro "${macroName}":`, e);
+    }
+    return { original: null, description: '' };
+}
+
+/**
+ * Registers a slider macro and records it in the ledger.
+ * The first time a name is registered, any existing definition is captured so it can be restored later.
+ * @param macroName - The macro name
+ * @param handler - The macro handler
+ * @param description - The macro description
+ */
+function registerSliderMacro(macroName: string, handler: () => string, description: string): void {
+    const engine = power_user.experimental_macro_engine ? 'v2' : 'legacy';
+
+    // Engine switched since we registered this name - hand the name back before re-registering
+    const existing = macroLedger.get(macroName);
+    if (existing && existing.engine !== engine) {
+        releaseSliderMacro(macroName);
+    }
+
+    if (!macroLedger.has(macroName)) {
+        const { original, description: originalDescription } = captureOriginalMacro(macroName, engine);
+        macroLedger.set(macroName, { engine, original, originalDescription });
+        if (original) {
+            console.debug(`[SliderMacros] Overriding existing macro "${macroName}" - original will be restored when released`);
+        }
+    }
+
+    if (engine === 'v2') {
+        macros.register(macroName, {
+            category: macros.category.PROMPTS,
+            description: description,
+            handler: handler,
+        });
+        // Fallback for old macro engine.Remove this once the experimental macro engine is the default.
+    } else {
+        MacrosParser.registerMacro(macroName, handler, description);
+    }
+}
+
+/**
+ * Unregisters a macro this extension registered and restores the definition it replaced, if any.
+ * @param macroName - The macro name
+ */
+function releaseSliderMacro(macroName: string): void {
+    const entry = macroLedger.get(macroName);
+    if (!entry) {
+        return;
+    }
+    macroLedger.delete(macroName);
+
+    try {
+        if (entry.engine === 'v2') {
+            if (macros?.registry?.unregisterMacro) {
+                macros.registry.unregisterMacro(macroName);
+            }
+            if (entry.original) {
+                macros.registry.registerMacro(macroName, entry.original);
+                console.debug(`[SliderMacros] Restored original macro "${macroName}"`);
+            }
+        } else {
+            if (typeof MacrosParser?.unregisterMacro === 'function') {
+                MacrosParser.unregisterMacro(macroName);
+            }
+            if (entry.original) {
+                MacrosParser.registerMacro(macroName, entry.original, entry.originalDescription);
+                console.debug(`[SliderMacros] Restored original macro "${macroName}"`);
+            }
+        }
+    } catch (e) {
+        console.warn(`[SliderMacros] Failed to release macro "${macroName}":`, e);
+    }
+}
+
+// ============================================================================
+// End Macro Registration Ledger
+// ============================================================================
+
+// This function is used to update the macros based on the current slider settings above.
+// Macros registered earlier that no longer belong to an enabled slider in the active collection are released.
+function updateSliderMacros(settings: ExtensionSettings) {
+    const activeCollection = settings.collections.find(c => c.active);
+    const wantedMacros = new Set<string>();
+
+    // Loop through each slider in the active collection and register it as a macro.
+    activeCollection?.sliders.forEach((slider) => {
+        if (!slider.enabled || !slider.property) {
+            return;
+        }
+
+        // Skip macro registration for sliders in "variable" or "parameter" mode
+        if (slider.sliderMode === 'variable' || slider.sliderMode === 'parameter') {
+            console.debug(`[SliderMacros] Skipping macro registration for "${slider.name}" - ${slider.sliderMode} mode`);
+            return;
+        }
+
+        const macroHandler = createSliderMacroHandler(slider, activeCollection);
+        const description = `Slider Macro: ${slider.name}`;
+        registerSliderMacro(slider.property, macroHandler, description);
+        wantedMacros.add(slider.property);
+    });
+
+    // Release stale registrations (renamed, disabled, deleted, or from another collection)
+    for (const macroName of Array.from(macroLedger.keys())) {
+        if (!wantedMacros.has(macroName)) {
+            releaseSliderMacro(macroName);
+        }
+    }
+
+    // Keep the injected prompt block in step with the macros
+    updatePromptInjection(settings);
+}
+
+/**
+ * Commits a change to a slider's value: syncs it to its bound variable, persists settings (and the chat/character
+ * snapshot if the collection uses one) and re-registers macros.
+ * Every path that changes a slider value (UI controls, slash commands) goes through here.
+ * @param settings - Extension settings containing slider collections
+ * @param slider - The slider whose value changed
+ */
+function commitSliderChange(settings: ExtensionSettings, slider: SliderModel): void {
+    commitSliderChanges(settings, [slider]);
+}
+
+/**
+ * Commits a change to several sliders at once, re-registering macros a single time.
+ * @param settings - Extension settings containing slider collections
+ * @param sliders - The sliders whose values changed
+ */
+function commitSliderChanges(settings: ExtensionSettings, sliders: SliderModel[]): void {
+    sliders.forEach((slider) => {
+        // A value set explicitly replaces whatever was rolled for the last generation
+        rolledValues.delete(slider);
+        syncSliderToVariable(slider);
+    });
+    saveSettingsDebounced();
+    saveScopedValues(settings);
+    updateSliderMacros(settings);
+    refreshSnapshotBar(settings);
+
+    // Other sliders may be shown/hidden by this change. Debounced so a control being dragged isn't re-rendered mid-drag.
+    const activeCollection = settings.collections.find(c => c.active);
+    if (activeCollection && sliders.some(slider => hasConditionalDependents(activeCollection, slider))) {
+        debouncedRenderCompletionSliders();
+    }
+}
+
+// Color format conversion utilities
+function formatColor(hex: string, format: 'hex' | 'rgb' | 'hsv'): string {
+    // Ensure valid hex
+    if (!/^#[0-9A-Fa-f]{6}$/.test(hex)) {
+        hex = '#ffffff';
+    }
+
+    if (format === 'hex') {
         return hex.toUpperCase();
     }
 
-    // Parse hex to RGB
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
+    // Parse hex to RGB
+    const r = parseInt(hex.slice(1, 3), 16);
+    const g = parseInt(hex.slice(3, 5), 16);
+    const b = parseInt(hex.slice(5, 7), 16);
+
+    if (format === 'rgb') {
+        return `rgb(${r}, ${g}, ${b})`;
+    }
+
+    // Convert RGB to HSV
+    const rNorm = r / 255;
+    const gNorm = g / 255;
+    const bNorm = b / 255;
+
+    const max = Math.max(rNorm, gNorm, bNorm);
+    const min = Math.min(rNorm, gNorm, bNorm);
+    const delta = max - min;
+
+    let h = 0;
+    if (delta !== 0) {
+        if (max === rNorm) {
+            h = ((gNorm - bNorm) / delta) % 6;
+        } else if (max === gNorm) {
+            h = (bNorm - rNorm) / delta + 2;
+        } else {
+            h = (rNorm - gNorm) / delta + 4;
+        }
+        h = Math.round(h * 60);
+        if (h < 0) h += 360;
+    }
+
+    const s = max === 0 ? 0 : Math.round((delta / max) * 100);
+    const v = Math.round(max * 100);
+
+    return `hsv(${h}, ${s}%, ${v}%)`;
+}
+
+
+// ============================================================================
+// Slider Value Helpers
+// ============================================================================
+
+/**
+ * Finds a slider in a collection by macro name, variable name (variable mode) or display name.
+ * Exact macro/variable matches win over display name matches, which are case-insensitive.
+ * @param collection - The collection to search
+ * @param identifier - Macro name (with or without braces), variable name or display name
+ * @returns The matching slider, or undefined if none matched
+ */
+function findSlider(collection: SliderCollection, identifier: string): SliderModel | undefined {
+    const key = identifier.trim().replace(/^\{\{|\}\}$/g, '');
+    if (!key) {
+        return undefined;
+    }
+    const lowerKey = key.toLowerCase();
+    return collection.sliders.find(s => s.sliderMode !== 'variable' && s.property === key)
+        ?? collection.sliders.find(s => s.sliderMode === 'variable' && s.syncVariable === key)
+        ?? collection.sliders.find(s => s.name.trim().toLowerCase() === lowerKey);
+}
+
+/**
+ * Gets the value a slider returns to when reset.
+ * Uses the slider's configured default, falling back to a type default if it is no longer valid
+ * (e.g. after the type or options changed).
+ * @param slider - The slider to get the default for
+ * @returns The default value for the slider
+ */
+function getSliderDefaultValue(slider: SliderModel): SliderModel['value'] {
+    if (slider.defaultValue !== undefined && slider.defaultValue !== null) {
+        const parsed = parseSliderValue(slider, String(slider.defaultValue));
+        if (parsed !== null) {
+            return parsed;
+        }
+    }
+    return getTypeFallbackValue(slider);
+}
+
+/**
+ * Gets the built-in default for a slider's type: min for Numeric, false for Boolean/Checkbox,
+ * the first option for MultiSelect/Dropdown, white for Color and empty for Text/Textarea/Tags.
+ * @param slider - The slider to get the fallback for
+ * @returns The fallback value for the slider's type
+ */
+function getTypeFallbackValue(slider: SliderModel): SliderModel['value'] {
+    switch (slider.type) {
+        case 'Boolean':
+            return 0;
+        case 'Checkbox':
+            return false;
+        case 'MultiSelect':
+            return 0;
+        case 'Dropdown':
+            return (slider.dropdownOptions || []).find(o => o.key.trim() !== '')?.key ?? '';
+        case 'Color':
+            return '#ffffff';
+        case 'Text':
+        case 'Textarea':
+        case 'Tags':
+            return '';
+        default: {
+            const min = parseFloat(slider.min);
+            return isNaN(min) ? 0 : min;
+        }
+    }
+}
+
+/**
+ * Parses a boolean-like string ("true", "on", "yes", "1" and their opposites).
+ * @param raw - The string to parse
+ * @returns The parsed boolean, or null if the string is not boolean-like
+ */
+function parseBooleanLike(raw: string): boolean | null {
+    const lower = raw.trim().toLowerCase();
+    if (['true', 'on', 'yes', '1'].includes(lower)) return true;
+    if (['false', 'off', 'no', '0'].includes(lower)) return false;
+    return null;
+}
+
+/**
+ * Converts a user-supplied string to a value for the given slider, validating it against the slider's type.
+ * Numeric values are clamped to min/max, MultiSelect accepts an option index or text, Dropdown accepts an option key,
+ * Text and Textarea accept anything, Tags accepts a comma or newline separated list of option keys.
+ * @param slider - The slider the value is meant for
+ * @param raw - The raw string value
+ * @returns The converted value, or null if the string is not valid for this slider
+ */
+function parseSliderValue(slider: SliderModel, raw: string): SliderModel['value'] | null {
+    const text = raw.trim();
+
+    switch (slider.type) {
+        case 'Computed':
+            // Computed sliders derive their output from an expression and hold no value of their own
+            return null;
+        case 'Text':
+        case 'Textarea':
+            // Free-form text is taken verbatim, including surrounding whitespace
+            return raw;
+        case 'Tags': {
+            // A comma or newline separated list of option keys; every key must exist
+            if (text === '') return '';
+            const validOptions = (slider.dropdownOptions || []).filter(o => o.key.trim() !== '');
+            const keys: string[] = [];
+            for (const part of text.split(text.includes('\n') ? '\n' : ',')) {
+                const wanted = part.trim().toLowerCase();
+                if (!wanted) continue;
+                const option = validOptions.find(o => o.key.trim().toLowerCase() === wanted);
+                if (!option) return null;
+                if (!keys.includes(option.key)) keys.push(option.key);
+            }
+            return keys.join('\n');
+        }
+        case 'Boolean': {
+            const bool = parseBooleanLike(text);
+            return bool === null ? null : (bool ? 1 : 0);
+        }
+        case 'Checkbox':
+            return parseBooleanLike(text);
+        case 'MultiSelect': {
+            const validOptions = (slider.options || []).filter(o => o.trim() !== '');
+            const byText = validOptions.findIndex(o => o.trim().toLowerCase() === text.toLowerCase());
+            if (byText !== -1) return byText;
+            const index = Number(text);
+            return Number.isInteger(index) && index >= 0 && index < validOptions.length ? index : null;
+        }
+        case 'Dropdown': {
+            const validOptions = (slider.dropdownOptions || []).filter(o => o.key.trim() !== '');
+            const option = validOptions.find(o => o.key === text) ?? validOptions.find(o => o.key.toLowerCase() === text.toLowerCase());
+            return option ? option.key : null;
+        }
+        case 'Color': {
+            const hex = text.startsWith('#') ? text : '#' + text;
+            return /^#[0-9A-Fa-f]{6}$/.test(hex) ? hex.toLowerCase() : null;
+        }
+        default: {
+            const num = Number(text);
+            if (text === '' || isNaN(num)) return null;
+            return clampNumericValue(slider, num);
+        }
+    }
+}
+
+/**
+ * Clamps a number to a Numeric slider's min/max bounds.
+ * @param slider - The slider providing the bounds
+ * @param value - The number to clamp
+ * @returns The clamped number
+ */
+function clampNumericValue(slider: SliderModel, value: number): number {
+    const min = parseFloat(slider.min);
+    const max = parseFloat(slider.max);
+    if (!isNaN(min) && value < min) return min;
+    if (!isNaN(max) && value > max) return max;
+    return value;
+}
+
+/**
+ * Computes the value one step up or down from a slider's current value.
+ * Numeric sliders move by their step (or the given amount), MultiSelect and Dropdown move to the adjacent option.
+ * @param slider - The slider to step
+ * @param direction - 1 to step up, -1 to step down
+ * @param amount - Optional step size override for Numeric sliders
+ * @returns The stepped value, or null if the slider type cannot be stepped
+ */
+function stepSliderValue(slider: SliderModel, direction: 1 | -1, amount?: number): SliderModel['value'] | null {
+    switch (slider.type) {
+        case 'MultiSelect': {
+            const count = (slider.options || []).filter(o => o.trim() !== '').length;
+            if (count === 0) return null;
+            const index = Number(slider.value) || 0;
+            return Math.min(count - 1, Math.max(0, index + direction));
+        }
+        case 'Dropdown': {
+            const validOptions = (slider.dropdownOptions || []).filter(o => o.key.trim() !== '');
+            if (validOptions.length === 0) return null;
+            const index = validOptions.findIndex(o => o.key === slider.value);
+            return validOptions[Math.min(validOptions.length - 1, Math.max(0, index + direction))].key;
+        }
+        case 'Numeric': {
+            const step = amount ?? (parseFloat(slider.step) || 1);
+            const next = (Number(slider.value) || 0) + direction * step;
+            // Round away floating point noise introduced by fractional steps
+            return clampNumericValue(slider, parseFloat(next.toFixed(10)));
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Sets a slider's value from outside the drawer and pushes it through the same path as the drawer controls.
+ * @param settings - Extension settings containing slider collections
+ * @param slider - The slider to update
+ * @param value - The new (already validated) value
+ */
+function applySliderValue(settings: ExtensionSettings, slider: SliderModel, value: SliderModel['value']): void {
+    slider.value = value;
+    commitSliderChange(settings, slider);
+    // Re-render the drawer so the controls reflect the new value
+    renderCompletionSliders(settings);
+}
+
+/**
+ * Resets sliders to their default values and pushes the change through the same path as a manual change.
+ * @param settings - Extension settings containing slider collections
+ * @param sliders - The sliders to reset
+ */
+function resetSlidersToDefault(settings: ExtensionSettings, sliders: SliderModel[]): void {
+    if (sliders.length === 0) {
+        return;
+    }
+    sliders.forEach((slider) => {
+        slider.value = getSliderDefaultValue(slider);
+    });
+    commitSliderChanges(settings, sliders);
+    renderCompletionSliders(settings);
+}
+
+// ============================================================================
+// End Slider Value Helpers
+// ============================================================================
+
+// ============================================================================
+// Scoped Value Snapshots
+// ============================================================================
+
+type SliderValueMap = Record<string, SliderModel['value']>;
+
+interface ScopedValueData {
+    // Slider values per collection name, keyed by slider id
+    values: Record<string, SliderValueMap>;
+    // Chat message index each trigger rule last fired at, keyed by getTriggerKey() (chat metadata only)
+    triggerFired?: Record<string, number>;
+    // Number of user messages sent in the chat, drives turn-based automation (chat metadata only)
+    turn?: number;
+}
+
+// Character write waiting for the debounce to flush. Captures the character id at change time,
+// so a chat switch before the flush can't redirect the values to another character.
+let pendingCharacterWrite: { characterId: string | number; data: ScopedValueData } | null = null;
+
+const debouncedFlushCharacterWrite = debounce(() => {
+    if (!pendingCharacterWrite) return;
+    const { characterId, data } = pendingCharacterWrite;
+    pendingCharacterWrite = null;
+    const context = SillyTavern.getContext();
+    if (typeof context.writeExtensionField !== 'function') {
+        console.warn('[SliderMacros] writeExtensionField not available, cannot save per-character slider values');
+        return;
+    }
+    context.writeExtensionField(characterId, MODULE_NAME, data);
+}, DEBOUNCE_DELAY);
+
+/**
+ * Reads the stored slider values for a scope from the current chat or character.
+ * @param scope - 'chat' for chat metadata, 'character' for the current character card
+ * @returns A copy of the stored data, or null if the scope isn't available (no chat, group chat for 'character', etc.)
+ */
+function readScopedValueData(scope: ValueScope): ScopedValueData | null {
+    const context = SillyTavern.getContext();
+
+    let stored: Partial<ScopedValueData> | undefined;
+    if (scope === 'chat') {
+        if (!context.chatId || !context.chatMetadata) return null;
+        stored = context.chatMetadata[MODULE_NAME];
+    } else if (scope === 'character') {
+        // Group chats have no single character to store values on
+        if (context.groupId || context.characterId === undefined) return null;
+        const character = context.characters?.[context.characterId];
+        if (!character) return null;
+        stored = character.data?.extensions?.[MODULE_NAME];
+    } else {
+        return null;
+    }
+
+    const data = structuredClone(stored ?? {}) as ScopedValueData;
+    if (!data.values || typeof data.values !== 'object') data.values = {};
+    return data;
+}
+
+/**
+ * Writes slider value data for a scope back to the current chat or character.
+ * @param scope - 'chat' or 'character'
+ * @param data - The full data object to store under this extension's key
+ */
+function writeScopedValueData(scope: ValueScope, data: ScopedValueData): void {
+    const context = SillyTavern.getContext();
+
+    if (scope === 'chat') {
+        context.chatMetadata[MODULE_NAME] = data;
+        (context.saveMetadataDebounced ?? context.saveMetadata)?.();
+    } else if (scope === 'character') {
+        // Update in memory right away so reads before the flush see the new values
+        const character = context.characters?.[context.characterId];
+        if (character?.data) {
+            character.data.extensions = character.data.extensions || {};
+            character.data.extensions[MODULE_NAME] = data;
+        }
+        pendingCharacterWrite = { characterId: context.characterId, data };
+        debouncedFlushCharacterWrite();
+    }
+}
+
+/**
+ * Gets a collection's current slider values keyed by slider id.
+ * @param collection - The collection
+ * @returns The values by slider id
+ */
+function getCollectionValueMap(collection: SliderCollection): SliderValueMap {
+    const valueMap: SliderValueMap = {};
+    collection.sliders.forEach((slider) => {
+        valueMap[getSliderId(slider)] = slider.value;
+    });
+    return valueMap;
+}
+
+/**
+ * Saves the active collection's slider values into the chat or character, if the collection opted into a scope.
+ * @param settings - Extension settings containing slider collections
+ */
+function saveScopedValues(settings: ExtensionSettings): void {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection || activeCollection.valueScope === 'global') {
+        return;
+    }
+
+    const data = readScopedValueData(activeCollection.valueScope);
+    if (!data) {
+        return;
+    }
+
+    data.values[activeCollection.name] = getCollectionValueMap(activeCollection);
+    writeScopedValueData(activeCollection.valueScope, data);
+}
+
+/**
+ * Restores the active collection's slider values from the chat or character, if the collection opted into a scope.
+ * Sliders without a stored value (e.g. in a fresh chat) start from their global value, or their default if they have none,
+ * so values never carry over from the previous chat or character.
+ * @param settings - Extension settings containing slider collections
+ * @returns True if stored values were found and applied
+ */
+function restoreScopedValues(settings: ExtensionSettings): boolean {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection || activeCollection.valueScope === 'global') {
+        return false;
+    }
+
+    const valueMap = readScopedValueData(activeCollection.valueScope)?.values[activeCollection.name] ?? {};
+    const hasOwn = (map: SliderValueMap, key: string) => Object.prototype.hasOwnProperty.call(map, key);
+
+    let restoredCount = 0;
+    activeCollection.sliders.forEach((slider) => {
+        const key = getSliderId(slider);
+        if (hasOwn(valueMap, key)) {
+            slider.value = valueMap[key];
+            restoredCount++;
+        } else {
+            slider.value = hasOwn(activeCollection.globalValues, key) ? activeCollection.globalValues[key] : getSliderDefaultValue(slider);
+        }
+    });
+
+    console.debug(`[SliderMacros] Restored ${restoredCount} slider value(s) from ${activeCollection.valueScope} for collection "${activeCollection.name}"`);
+    saveSettingsDebounced();
+    return restoredCount > 0;
+}
+
+// ============================================================================
+// End Scoped Value Snapshots
+// ============================================================================
+
+// ============================================================================
+// Value Snapshots
+// ============================================================================
+
+/**
+ * Checks whether a collection's current slider values match a snapshot.
+ * Sliders missing from the snapshot are compared against their defaults.
+ * @param collection - The collection to compare
+ * @param snapshot - The snapshot to compare against
+ * @returns True if every slider holds the value the snapshot would give it
+ */
+function isSnapshotApplied(collection: SliderCollection, snapshot: ValueSnapshot): boolean {
+    return collection.sliders.every((slider) => {
+        const key = getSliderId(slider);
+        const expected = Object.prototype.hasOwnProperty.call(snapshot.values, key) ? snapshot.values[key] : getSliderDefaultValue(slider);
+        return slider.value === expected;
+    });
+}
+
+/**
+ * Saves the current values of every slider in the active collection as a named snapshot.
+ * Saving under an existing name overwrites that snapshot.
+ * @param settings - Extension settings containing slider collections
+ */
+async function saveSnapshot(settings: ExtensionSettings): Promise<void> {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return;
+    }
+
+    const name = (await Popup.show.input('Save Snapshot', 'Enter a name for the snapshot of the current slider values:'))?.trim();
+    if (!name) {
+        return;
+    }
+
+    const existing = activeCollection.snapshots.find(snap => snap.name === name);
+    if (existing) {
+        const confirm = await Popup.show.confirm('Overwrite Snapshot', `A snapshot named "${name}" already exists. Overwrite it with the current values?`);
+        if (!confirm) {
+            return;
+        }
+    }
+
+    const values: ValueSnapshot['values'] = {};
+    activeCollection.sliders.forEach((slider) => {
+        values[getSliderId(slider)] = slider.value;
+    });
+
+    if (existing) {
+        existing.values = values;
+    } else {
+        activeCollection.snapshots.push({ name, values });
+    }
+
+    saveSettingsDebounced();
+    renderCompletionSliders(settings);
+    toastr.success(`Saved snapshot "${name}" in collection "${activeCollection.name}".`);
+}
+
+/**
+ * Applies a snapshot to the active collection. Sliders without a value in the snapshot reset to their defaults.
+ * @param settings - Extension settings containing slider collections
+ * @param snapshot - The snapshot to apply
+ */
+function applySnapshot(settings: ExtensionSettings, snapshot: ValueSnapshot): void {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return;
+    }
+
+    activeCollection.sliders.forEach((slider) => {
+        const key = getSliderId(slider);
+        slider.value = Object.prototype.hasOwnProperty.call(snapshot.values, key) ? snapshot.values[key] : getSliderDefaultValue(slider);
+    });
+
+    commitSliderChanges(settings, activeCollection.sliders);
+    renderCompletionSliders(settings);
+}
+
+/**
+ * Deletes a snapshot from the active collection after confirmation.
+ * @param settings - Extension settings containing slider collections
+ * @param snapshot - The snapshot to delete
+ */
+async function deleteSnapshot(settings: ExtensionSettings, snapshot: ValueSnapshot): Promise<void> {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return;
+    }
+
+    const confirm = await Popup.show.confirm('Delete Snapshot', `Are you sure you want to delete the snapshot "${snapshot.name}"?`);
+    if (!confirm) {
+        return;
+    }
+
+    const index = activeCollection.snapshots.indexOf(snapshot);
+    if (index !== -1) {
+        activeCollection.snapshots.splice(index, 1);
+    }
+    saveSettingsDebounced();
+    renderCompletionSliders(settings);
+}
+
+const SNAPSHOT_BAR_ID = 'slider_macros_snapshot_bar';
+
+/**
+ * Renders the snapshot bar in the completion drawer: one chip per snapshot plus a save button.
+ * The chip matching the current values is highlighted, so this runs again after every value change.
+ * @param settings - Extension settings containing slider collections
+ */
+function refreshSnapshotBar(settings: ExtensionSettings): void {
+    const bar = document.getElementById(SNAPSHOT_BAR_ID);
+    const collection = settings.collections.find(c => c.active);
+    if (!bar || !collection) {
+        return;
+    }
+    bar.innerHTML = '';
+
+    const label = document.createElement('span');
+    label.className = 'slider_macros_snapshot_label';
+    label.textContent = 'Snapshots:';
+    bar.appendChild(label);
+
+    collection.snapshots.forEach((snapshot) => {
+        const chip = document.createElement('div');
+        chip.className = 'slider_macros_snapshot_chip';
+        chip.classList.toggle('active', isSnapshotApplied(collection, snapshot));
+        chip.title = `Apply snapshot "${snapshot.name}"`;
+
+        const chipName = document.createElement('span');
+        chipName.textContent = snapshot.name;
+        chip.appendChild(chipName);
+
+        const removeIcon = document.createElement('i');
+        removeIcon.className = 'fa-solid fa-times slider_macros_snapshot_remove';
+        removeIcon.title = 'Delete snapshot';
+        removeIcon.addEventListener('click', (e) => {
+            e.stopPropagation();
+            deleteSnapshot(settings, snapshot);
+        });
+        chip.appendChild(removeIcon);
+
+        chip.addEventListener('click', () => applySnapshot(settings, snapshot));
+        bar.appendChild(chip);
+    });
+
+    const saveButton = document.createElement('div');
+    saveButton.className = 'menu_button menu_button_icon slider_macros_snapshot_save';
+    saveButton.title = 'Save current values as a snapshot';
+    saveButton.innerHTML = '<i class="fa-solid fa-camera"></i>';
+    saveButton.addEventListener('click', () => saveSnapshot(settings));
+    bar.appendChild(saveButton);
+}
+
+// ============================================================================
+// End Value Snapshots
+// ============================================================================
+
+// ============================================================================
+// Collection Files
+// ============================================================================
+
+const COLLECTION_FILE_FORMAT = 'slider-macros-collection';
+// Bump when the file layout changes in a way older versions can't read, and keep the published schema in step
+const COLLECTION_FILE_VERSION = 1;
+const COLLECTION_SCHEMA_URL = 'https://raw.githubusercontent.com/Landozo/Extension-SliderMacros/main/schema/slider-collection.schema.json';
+// Result of the "YAML" button in the export popup
+const EXPORT_AS_YAML = 2;
+// Result of the "Merge into current" button in the import popup
+const IMPORT_AS_MERGE = 2;
+// Number of validation errors listed in the import error toast; the rest go to the console
+const MAX_LISTED_IMPORT_ERRORS = 8;
+
+interface CollectionFileData {
+    name?: string;
+    sliders: Partial<SliderModel>[];
+    groups: SliderGroup[];
+    snapshots: ValueSnapshot[];
+    injection?: Partial<PromptInjection>;
+    directives?: Partial<DirectiveSettings>;
+}
+
+// Validation rule for a field: JSON types separated by "|", a list of allowed values,
+// or an array whose items follow a rule (or, for objects, a set of field rules)
+type FieldRule = string | readonly string[] | { arrayOf: FieldRule | FieldRules };
+type FieldRules = Record<string, FieldRule>;
+
+// Mirrors schema/slider-collection.schema.json
+const SLIDER_FIELD_RULES: FieldRules = {
+    id: 'string',
+    name: 'string',
+    property: 'string',
+    type: ['Numeric', 'Boolean', 'MultiSelect', 'Dropdown', 'Color', 'Checkbox', 'Tags', 'Text', 'Textarea', 'Computed'],
+    min: 'string|number',
+    max: 'string|number',
+    step: 'string|number',
+    value: 'number|string|boolean',
+    defaultValue: 'number|string|boolean',
+    enabled: 'boolean',
+    options: { arrayOf: 'string' },
+    dropdownOptions: { arrayOf: { key: 'string', value: 'string' } },
+    tagSeparator: 'string',
+    tagLastSeparator: 'string',
+    tagPrefix: 'string',
+    tagSuffix: 'string',
+    outputDecimals: 'string',
+    outputPercent: 'boolean',
+    outputPrefix: 'string',
+    outputSuffix: 'string',
+    valueMap: { arrayOf: { min: 'string', max: 'string', text: 'string' } },
+    behavior: ['none', 'drift', 'decay', 'randomWalk'],
+    behaviorEvery: 'number',
+    behaviorAmount: 'string',
+    schedule: { arrayOf: { turn: 'number', value: 'string' } },
+    colorFormat: ['hex', 'rgb', 'hsv'],
+    checkboxTrueValue: 'string',
+    checkboxFalseValue: 'string',
+    groupId: 'string|null',
+    order: 'number',
+    syncEnabled: 'boolean',
+    syncVariable: 'string',
+    syncScope: ['local', 'global'],
+    syncForce: 'boolean',
+    sliderMode: ['macro', 'variable', 'parameter'],
+    expression: 'string',
+    conditions: { arrayOf: { sliderId: 'string', operator: ['equals', 'notEquals', 'greaterThan', 'lessThan'], value: 'string' } },
+    conditionMatch: ['all', 'any'],
+    conditionEffect: ['hide', 'disable'],
+    emptyWhenHidden: 'boolean',
+    triggers: { arrayOf: { pattern: 'string', value: 'string', priority: 'number', cooldown: 'number' } },
+    randomize: 'boolean',
+    randomWeights: 'string',
+    randomChance: 'number',
+    randomShow: 'boolean',
+};
+
+const GROUP_FIELD_RULES: FieldRules = { id: 'string', name: 'string', collapsed: 'boolean', order: 'number' };
+const SNAPSHOT_FIELD_RULES: FieldRules = { name: 'string', values: 'object' };
+const INJECTION_FIELD_RULES: FieldRules = {
+    enabled: 'boolean',
+    position: ['before_prompt', 'in_prompt', 'in_chat'],
+    depth: 'number',
+    role: ['system', 'user', 'assistant'],
+    template: 'string',
+};
+const DIRECTIVE_FIELD_RULES: FieldRules = { enabled: 'boolean', strip: 'boolean' };
+
+/**
+ * Gets the JSON type name of a value, telling arrays and null apart from objects.
+ * @param value - The value
+ * @returns 'array', 'null', or the typeof name
+ */
+function getJsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Checks one field against its rule, adding a readable message for each problem.
+ * @param value - The field's value
+ * @param rule - The rule it has to follow
+ * @param label - Where the field is, e.g. 'Slider 2 ("Mood")'
+ * @param field - The field's name (with index for array items)
+ * @param errors - Collected error messages
+ */
+function validateFieldValue(value: unknown, rule: FieldRule, label: string, field: string, errors: string[]): void {
+    if (typeof rule === 'string') {
+        const types = rule.split('|');
+        const type = getJsonType(value);
+        if (!types.includes(type) || (type === 'number' && !isFinite(value as number))) {
+            errors.push(`${label}: "${field}" must be ${types.join(' or ')}, not ${type}`);
+        }
+    } else if (Array.isArray(rule)) {
+        if (!rule.includes(value as string)) {
+            errors.push(`${label}: "${field}" must be one of ${rule.join(', ')}, not ${JSON.stringify(value)}`);
+        }
+    } else {
+        const { arrayOf } = rule as { arrayOf: FieldRule | FieldRules };
+        if (!Array.isArray(value)) {
+            errors.push(`${label}: "${field}" must be array, not ${getJsonType(value)}`);
+            return;
+        }
+        value.forEach((item, i) => {
+            if (typeof arrayOf === 'string' || Array.isArray(arrayOf) || 'arrayOf' in arrayOf) {
+                validateFieldValue(item, arrayOf as FieldRule, label, `${field}[${i}]`, errors);
+            } else {
+                validateFields(item, arrayOf as FieldRules, `${label}, ${field}[${i}]`, errors);
+            }
+        });
+    }
+}
+
+/**
+ * Checks an object's known fields against their rules. Unknown fields are ignored and missing fields are allowed
+ * unless listed as required (normalization fills them in later).
+ * @param obj - The object to check
+ * @param rules - Rules for its fields
+ * @param label - Where the object is, used in messages
+ * @param errors - Collected error messages
+ * @param required - Fields that must be present
+ */
+function validateFields(obj: unknown, rules: FieldRules, label: string, errors: string[], required: string[] = []): void {
+    if (getJsonType(obj) !== 'object') {
+        errors.push(`${label} must be an object, not ${getJsonType(obj)}`);
+        return;
+    }
+    const record = obj as Record<string, unknown>;
+    required.filter(field => record[field] === undefined).forEach(field => errors.push(`${label}: "${field}" is missing`));
+    Object.entries(rules).forEach(([field, rule]) => {
+        if (record[field] !== undefined) {
+            validateFieldValue(record[field], rule, label, field, errors);
+        }
+    });
+}
+
+/**
+ * Validates the contents of a collection file against the collection format.
+ * Files from before the format was versioned (a bare slider array, or { sliders, groups, ... }) are accepted.
+ * @param parsed - The parsed file
+ * @returns Readable error messages, empty if the file is valid
+ */
+function validateCollectionFile(parsed: unknown): string[] {
+    const errors: string[] = [];
+    if (Array.isArray(parsed)) {
+        parsed.forEach((slider, i) => validateFields(slider, SLIDER_FIELD_RULES, `Slider ${i + 1}`, errors));
+        return errors;
+    }
+    if (getJsonType(parsed) !== 'object') {
+        return [`The file must contain a collection object, not ${getJsonType(parsed)}`];
+    }
+
+    const file = parsed as Record<string, unknown>;
+    if (file.format !== undefined && file.format !== COLLECTION_FILE_FORMAT) {
+        return [`This is not a slider collection ("format" is ${JSON.stringify(file.format)})`];
+    }
+    if (file.version !== undefined) {
+        if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+            return [`"version" must be a whole number of 1 or more, not ${JSON.stringify(file.version)}`];
+        }
+        if (file.version > COLLECTION_FILE_VERSION) {
+            return [`The file uses format version ${file.version}, but this version of Slider Macros only reads up to version ${COLLECTION_FILE_VERSION}. Update the extension to import it.`];
+        }
+    }
+    if (!Array.isArray(file.sliders)) {
+        return [`"sliders" must be array, not ${getJsonType(file.sliders)}`];
+    }
+    if (file.name !== undefined && typeof file.name !== 'string') {
+        errors.push(`"name" must be string, not ${getJsonType(file.name)}`);
+    }
+
+    file.sliders.forEach((slider, i) => {
+        const name = slider && typeof slider.name === 'string' && slider.name ? ` ("${slider.name}")` : '';
+        validateFields(slider, SLIDER_FIELD_RULES, `Slider ${i + 1}${name}`, errors);
+    });
+    for (const [key, rules, label, required] of [
+        ['groups', GROUP_FIELD_RULES, 'Group', ['id']],
+        ['snapshots', SNAPSHOT_FIELD_RULES, 'Snapshot', ['name', 'values']],
+    ] as const) {
+        const list = file[key];
+        if (list === undefined) continue;
+        if (!Array.isArray(list)) {
+            errors.push(`"${key}" must be array, not ${getJsonType(list)}`);
+            continue;
+        }
+        list.forEach((item, i) => validateFields(item, rules, `${label} ${i + 1}`, errors, [...required]));
+    }
+    if (file.injection !== undefined) {
+        validateFields(file.injection, INJECTION_FIELD_RULES, 'Prompt injection', errors);
+    }
+    if (file.directives !== undefined) {
+        validateFields(file.directives, DIRECTIVE_FIELD_RULES, 'Directives', errors);
+    }
+    return errors;
+}
+
+/**
+ * Parses and validates a collection file. YAML is read for .yaml/.yml files, JSON otherwise.
+ * @param content - The file's text
+ * @param fileName - The file's name, used to pick the format
+ * @returns The collection data if the file is valid, and any error messages
+ */
+function parseCollectionFile(content: string, fileName: string): { data: CollectionFileData | null; errors: string[] } {
+    const isYaml = /\.ya?ml$/i.test(fileName);
+    let parsed: unknown;
+    try {
+        parsed = isYaml ? yaml.parse(content) : JSON.parse(content);
+    } catch (e) {
+        return { data: null, errors: [`The file is not valid ${isYaml ? 'YAML' : 'JSON'}: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+
+    const errors = validateCollectionFile(parsed);
+    if (errors.length > 0) {
+        return { data: null, errors };
+    }
+
+    const file = (Array.isArray(parsed) ? { sliders: parsed } : parsed) as Partial<CollectionFileData>;
+    const sliders = (file.sliders ?? []).map((slider) => {
+        // Hand-written files may give bounds as numbers; sliders store them as text
+        for (const field of ['min', 'max', 'step'] as const) {
+            if (typeof slider[field] === 'number') {
+                slider[field] = String(slider[field]);
+            }
+        }
+        return slider;
+    });
+    return {
+        data: {
+            name: file.name,
+            sliders,
+            groups: file.groups ?? [],
+            snapshots: file.snapshots ?? [],
+            injection: file.injection,
+            directives: file.directives,
+        },
+        errors: [],
+    };
+}
+
+/**
+ * Reports why a collection file couldn't be imported, listing the first few problems.
+ * @param fileName - The file's name
+ * @param errors - The error messages
+ */
+function showImportErrors(fileName: string, errors: string[]): void {
+    console.warn(`[SliderMacros] Could not import "${fileName}":`, errors);
+    const list = document.createElement('ul');
+    errors.slice(0, MAX_LISTED_IMPORT_ERRORS).forEach((error) => {
+        const item = document.createElement('li');
+        item.textContent = error;
+        list.appendChild(item);
+    });
+    const more = errors.length > MAX_LISTED_IMPORT_ERRORS ? `<div>…and ${errors.length - MAX_LISTED_IMPORT_ERRORS} more (see the browser console).</div>` : '';
+    // The title is HTML too with escapeHtml off, and the file name is not ours
+    const title = document.createElement('span');
+    title.textContent = `Could not import "${fileName}"`;
+    toastr.error(list.outerHTML + more, title.innerHTML, { timeOut: 15000, escapeHtml: false });
+}
+
+/**
+ * Builds the versioned file contents for a collection. Only the collection's content is exported;
+ * preset bindings and where values are remembered are local choices.
+ * @param collection - The collection to export
+ * @returns The file contents
+ */
+function buildCollectionFile(collection: SliderCollection): Record<string, unknown> {
+    return {
+        $schema: COLLECTION_SCHEMA_URL,
+        format: COLLECTION_FILE_FORMAT,
+        version: COLLECTION_FILE_VERSION,
+        name: collection.name,
+        sliders: collection.sliders,
+        groups: collection.groups,
+        snapshots: collection.snapshots,
+        injection: collection.injection,
+        directives: collection.directives,
+    };
+}
+
+/**
+ * Downloads a collection as a JSON or YAML file.
+ * @param collection - The collection to export
+ * @param format - The file format
+ */
+function exportCollectionFile(collection: SliderCollection, format: 'json' | 'yaml'): void {
+    const contents = buildCollectionFile(collection);
+    const fileContent = format === 'yaml' ? yaml.stringify(contents) : JSON.stringify(contents, null, 4);
+    const blob = new Blob([fileContent], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${collection.name}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+// ============================================================================
+// End Collection Files
+// ============================================================================
+
+// ============================================================================
+// Import Merge
+// ============================================================================
+
+type MergeResolution = 'keep' | 'replace' | 'rename';
+
+interface MergeConflict {
+    imported: SliderModel;
+    local: SliderModel;
+    resolution: MergeResolution;
+}
+
+/**
+ * Finds the slider in a collection that an imported slider corresponds to: same macro/parameter name,
+ * or same synced variable.
+ * @param collection - The collection merged into
+ * @param imported - The imported slider
+ * @returns The matching slider, if any
+ */
+function findMergeMatch(collection: SliderCollection, imported: SliderModel): SliderModel | undefined {
+    return collection.sliders.find((slider) => {
+        if (imported.property && slider.property === imported.property) {
+            return true;
+        }
+        return imported.syncVariable !== '' && (imported.syncEnabled || imported.sliderMode === 'variable')
+            && (slider.syncEnabled || slider.sliderMode === 'variable')
+            && slider.syncVariable === imported.syncVariable && slider.syncScope === imported.syncScope;
+    });
+}
+
+/**
+ * Checks whether two sliders are configured the same, ignoring their current value and where they sit.
+ * @param a - First slider
+ * @param b - Second slider
+ * @returns True if only value, order or group differ
+ */
+function isSameSliderConfig(a: SliderModel, b: SliderModel): boolean {
+    const strip = ({ id: _id, value: _value, order: _order, groupId: _groupId, ...config }: SliderModel) => JSON.stringify(config);
+    return strip(a) === strip(b);
+}
+
+/**
+ * Appends _2, _3, ... to a name until it is not taken.
+ * @param base - The wanted name
+ * @param taken - Names already in use
+ * @returns A free name
+ */
+function getFreeName(base: string, taken: (name: string) => boolean): string {
+    let name = base;
+    for (let i = 2; taken(name); i++) {
+        name = `${base}_${i}`;
+    }
+    return name;
+}
+
+/**
+ * Asks how to resolve each slider that exists both in the import and in the collection.
+ * @param collectionName - Name of the collection merged into
+ * @param conflicts - The conflicts; their resolution is updated from the choices made
+ * @returns False if the merge was cancelled
+ */
+async function promptMergeConflicts(collectionName: string, conflicts: MergeConflict[]): Promise<boolean> {
+    // Build with the DOM so slider names are escaped
+    const container = document.createElement('div');
+    container.className = 'slider_macros_merge';
+    const intro = document.createElement('div');
+    intro.textContent = `${conflicts.length} imported slider(s) already exist in "${collectionName}". Choose what to do with each:`;
+    container.appendChild(intro);
+
+    const createRow = (label: string, index: string) => {
+        const row = document.createElement('div');
+        row.className = 'slider_macros_merge_row';
+        const name = document.createElement('span');
+        name.className = 'slider_macros_merge_name';
+        name.textContent = label;
+        const select = document.createElement('select');
+        select.className = 'text_pole slider_macros_merge_choice';
+        select.dataset.index = index;
+        select.innerHTML = `
+            <option value="keep">Keep mine</option>
+            <option value="replace">Replace with imported</option>
+            <option value="rename">Import as a copy</option>
+        `;
+        row.appendChild(name);
+        row.appendChild(select);
+        return row;
+    };
+
+    const allRow = createRow('All sliders', 'all');
+    allRow.classList.add('slider_macros_merge_all');
+    container.appendChild(allRow);
+    conflicts.forEach((conflict, i) => {
+        const { imported } = conflict;
+        const key = imported.property ? `{{${imported.property}}}` : imported.syncVariable;
+        container.appendChild(createRow(`${imported.name || 'Unnamed'} (${key})`, String(i)));
+    });
+
+    const popup = Popup.show.confirm('Merge Conflicts', container.outerHTML, {
+        okButton: 'Merge',
+        cancelButton: 'Cancel',
+    });
+
+    // After popup opens, attach event listeners
+    setTimeout(() => {
+        const selects = Array.from(document.querySelectorAll('.slider_macros_merge_choice')) as HTMLSelectElement[];
+        selects.forEach((select) => {
+            select.addEventListener('change', () => {
+                const resolution = select.value as MergeResolution;
+                if (select.dataset.index === 'all') {
+                    conflicts.forEach(conflict => conflict.resolution = resolution);
+                    selects.forEach(other => other.value = resolution);
+                } else {
+                    conflicts[Number(select.dataset.index)].resolution = resolution;
+                }
+            });
+        });
+    }, 50);
+
+    return Boolean(await popup);
+}
+
+/**
+ * Merges an imported collection file into an existing collection.
+ * Groups are matched by name (group ids differ between exports) and created when missing. Sliders are matched by
+ * macro/parameter name or synced variable: new ones are added, identical ones skipped, and for the rest the user
+ * picks keep, replace (the slider keeps its place in the list) or import as a copy under a free name.
+ * Snapshots are added unless one with the same name exists; the collection's own settings are left alone.
+ * @param settings - Extension settings containing slider collections
+ * @param target - The collection to merge into
+ * @param data - The validated contents of the file
+ */
+async function mergeImport(settings: ExtensionSettings, target: SliderCollection, data: CollectionFileData): Promise<void> {
+    const imported = data.sliders.map(s => normalizeSlider(s));
+
+    // Remap imported group ids onto the target's groups by name
+    const groupIdMap = new Map<string, string>();
+    const newGroups: SliderGroup[] = [];
+    data.groups.forEach((group) => {
+        const existing = target.groups.find(g => g.name.trim().toLowerCase() === (group.name || '').trim().toLowerCase());
+        if (existing) {
+            groupIdMap.set(group.id, existing.id);
+        } else {
+            const newGroup: SliderGroup = { id: generateGroupId(), name: group.name || 'Imported Group', collapsed: !!group.collapsed, order: 0 };
+            groupIdMap.set(group.id, newGroup.id);
+            newGroups.push(newGroup);
+        }
+    });
+    imported.forEach((slider) => {
+        slider.groupId = slider.groupId ? groupIdMap.get(slider.groupId) ?? null : null;
+    });
+
+    const added: SliderModel[] = [];
+    const conflicts: MergeConflict[] = [];
+    let unchanged = 0;
+    imported.forEach((slider) => {
+        const local = findMergeMatch(target, slider);
+        if (!local) {
+            added.push(slider);
+        } else if (isSameSliderConfig(local, slider)) {
+            unchanged++;
+        } else {
+            conflicts.push({ imported: slider, local, resolution: 'keep' });
+        }
+    });
+
+    if (conflicts.length > 0 && !await promptMergeConflicts(target.name, conflicts)) {
+        return;
+    }
+
+    newGroups.forEach((group) => {
+        group.order = getNextOrder(target);
+        target.groups.push(group);
+    });
+
+    const addSlider = (slider: SliderModel) => {
+        if (target.sliders.some(s => s.id === slider.id)) {
+            slider.id = generateSliderId();
+        }
+        if (!slider.groupId) {
+            slider.order = getNextOrder(target);
+        }
+        target.sliders.push(slider);
+    };
+    added.forEach(addSlider);
+
+    let replaced = 0;
+    let copied = 0;
+    conflicts.forEach(({ imported: slider, local, resolution }) => {
+        if (resolution === 'replace') {
+            target.sliders[target.sliders.indexOf(local)] = { ...slider, id: local.id, order: local.order, groupId: local.groupId };
+            replaced++;
+        } else if (resolution === 'rename') {
+            if (slider.property) {
+                slider.property = getFreeName(slider.property, name => target.sliders.some(s => s.property === name));
+            }
+            if (slider.syncVariable && local.syncVariable === slider.syncVariable) {
+                slider.syncVariable = getFreeName(slider.syncVariable, name => target.sliders.some(s => s.syncVariable === name));
+            }
+            slider.name = `${slider.name} (imported)`;
+            addSlider(slider);
+            copied++;
+        }
+    });
+
+    const newSnapshots = data.snapshots.filter(snapshot => !target.snapshots.some(s => s.name === snapshot.name));
+    target.snapshots.push(...newSnapshots);
+
+    const activeCollection = settings.collections.find(c => c.active);
+    commitSliderChanges(settings, activeCollection === target ? target.sliders : []);
+    renderSliderConfigs(settings);
+
+    const kept = conflicts.length - replaced - copied;
+    toastr.success(`Merged into "${target.name}": ${added.length} added, ${replaced} replaced, ${copied} copied, ${kept + unchanged} unchanged` + (newSnapshots.length ? `, ${newSnapshots.length} snapshot(s) added.` : '.'));
+}
+
+// ============================================================================
+// End Import Merge
+// ============================================================================
+
+// ============================================================================
+// Embedded Collections
+// ============================================================================
+
+// Key under the preset's or character card's `extensions` holding an embedded collection file.
+// Kept apart from the per-character slider values, which live under MODULE_NAME.
+const EMBED_FIELD = 'sliderMacrosCollection';
+// Result of the "Character" button in the embed popup
+const EMBED_IN_CHARACTER = 2;
+
+type EmbedSource = 'preset' | 'character';
+
+// The parts of SillyTavern's PresetManager used here
+interface PresetExtensionStore {
+    getSelectedPresetName(): string;
+    readPresetExtensionField(args: { name?: string; path: string }): unknown;
+    writePresetExtensionField?(args: { name?: string; path: string; value: unknown }): Promise<void>;
+}
+
+// Embedded collections the user chose not to install this session, by source, name and content
+const dismissedEmbeds = new Set<string>();
+// Embedded collections with an install prompt open, by the same key. One preset switch fires several events
+const embedPromptsOpen = new Set<string>();
+
+/**
+ * Gets the name of the current preset and its preset manager, for the API in use.
+ * @returns The preset manager and preset name, or null if presets aren't available
+ */
+function getCurrentPresetTarget(): { manager: PresetExtensionStore; name: string } | null {
+    const { getPresetManager } = SillyTavern.getContext();
+    const manager: PresetExtensionStore | null = typeof getPresetManager === 'function' ? getPresetManager() : null;
+    const name = manager?.getSelectedPresetName?.();
+    if (!manager || !name || typeof manager.readPresetExtensionField !== 'function') {
+        return null;
+    }
+    return { manager, name };
+}
+
+/**
+ * Summarizes a collection's content for comparison, leaving out current slider values (which change all the time).
+ * @param file - A collection file
+ * @returns A string that is equal for collections with the same content
+ */
+function getCollectionSignature(file: Partial<CollectionFileData>): string {
+    const sliders = (file.sliders ?? []).map(({ value: _value, ...config }) => config);
+    return JSON.stringify({ sliders, groups: file.groups ?? [], snapshots: file.snapshots ?? [], injection: file.injection ?? {}, directives: file.directives ?? {} });
+}
+
+/**
+ * Embeds the active collection in the current preset or the current character card, so it travels with them
+ * when they are exported or shared.
+ * @param settings - Extension settings containing slider collections
+ */
+async function embedActiveCollection(settings: ExtensionSettings): Promise<void> {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return;
+    }
+
+    const choice = await Popup.show.confirm('Embed Collection', `Embed "${activeCollection.name}" in the current preset or the current character card? Anyone you share it with will be offered to install the collection.`, {
+        okButton: 'Preset',
+        cancelButton: 'Cancel',
+        customButtons: [{ text: 'Character', result: EMBED_IN_CHARACTER }],
+    });
+    if (!choice) {
+        return;
+    }
+
+    const file = JSON.parse(JSON.stringify(buildCollectionFile(activeCollection)));
+    if (choice === EMBED_IN_CHARACTER) {
+        const { characterId, characters, writeExtensionField } = SillyTavern.getContext();
+        const character = characterId !== undefined ? characters?.[characterId] : null;
+        if (!character || typeof writeExtensionField !== 'function') {
+            toastr.warning('Open a chat with a single character to embed the collection in its card.');
+            return;
+        }
+        await writeExtensionField(characterId, EMBED_FIELD, file);
+        toastr.success(`Embedded "${activeCollection.name}" in the character card of ${character.name}.`);
+    } else {
+        const target = getCurrentPresetTarget();
+        if (!target?.manager.writePresetExtensionField) {
+            toastr.warning('The current API has no preset to embed the collection in.');
+            return;
+        }
+        await target.manager.writePresetExtensionField({ name: target.name, path: EMBED_FIELD, value: file });
+        toastr.success(`Embedded "${activeCollection.name}" in the preset "${target.name}".`);
+    }
+}
+
+/**
+ * Reads the collection embedded in the current preset or character, if any.
+ * @param source - Where to look
+ * @returns The embedded file and the name of what it is embedded in, or null
+ */
+function readEmbeddedCollection(source: EmbedSource): { file: unknown; sourceName: string } | null {
+    if (source === 'character') {
+        const { characterId, characters } = SillyTavern.getContext();
+        const character = characterId !== undefined ? characters?.[characterId] : null;
+        const file = character?.data?.extensions?.[EMBED_FIELD];
+        return file ? { file, sourceName: character.name } : null;
+    }
+
+    const target = getCurrentPresetTarget();
+    const file = target?.manager.readPresetExtensionField({ name: target.name, path: EMBED_FIELD });
+    return target && file ? { file, sourceName: target.name } : null;
+}
+
+/**
+ * Offers to install (or update) the collection embedded in the current preset or character.
+ * Nothing is asked when the local collection of the same name already has the same content, or when the user
+ * dismissed this exact collection earlier in the session. Installed collections become active; one installed
+ * from a preset is also bound to it, unless another collection already is.
+ * @param settings - Extension settings containing slider collections
+ * @param source - Where to look
+ */
+async function checkEmbeddedCollection(settings: ExtensionSettings, source: EmbedSource): Promise<void> {
+    const embedded = readEmbeddedCollection(source);
+    if (!embedded) {
+        return;
+    }
+
+    const { sourceName } = embedded;
+    const sourceLabel = source === 'preset' ? 'preset' : 'character';
+    const { data, errors } = parseCollectionFile(JSON.stringify(embedded.file), 'embedded.json');
+    if (!data) {
+        console.warn(`[SliderMacros] Ignoring invalid collection embedded in ${sourceLabel} "${sourceName}":`, errors);
+        return;
+    }
+    const name = data.name || sourceName;
+    // Normalized like an import, so an embed made by an older version doesn't look different for missing fields
+    const collection = buildCollectionFromFile(name, data);
+    const signature = getCollectionSignature(buildCollectionFile(collection) as Partial<CollectionFileData>);
+    const dismissKey = `${source}:${sourceName}:${name}:${signature}`;
+    const isInstalled = (existing: SliderCollection | undefined) => !!existing && getCollectionSignature(buildCollectionFile(existing) as Partial<CollectionFileData>) === signature;
+    const offered = settings.collections.find(c => c.name === name);
+    if (dismissedEmbeds.has(dismissKey) || embedPromptsOpen.has(dismissKey) || isInstalled(offered)) {
+        return;
+    }
+
+    const message = offered
+        ? `The ${sourceLabel} "${sourceName}" includes a different version of your slider collection "${name}". Update it? Its sliders, groups and snapshots will be replaced.`
+        : `The ${sourceLabel} "${sourceName}" includes the slider collection "${name}" (${collection.sliders.length} sliders). Install it?`;
+    embedPromptsOpen.add(dismissKey);
+    let confirm;
+    try {
+        confirm = await Popup.show.confirm('Embedded Slider Collection', message, {
+            okButton: offered ? 'Update' : 'Install',
+            cancelButton: 'Not now',
+        });
+    } finally {
+        embedPromptsOpen.delete(dismissKey);
+    }
+    if (!confirm) {
+        dismissedEmbeds.add(dismissKey);
+        return;
+    }
+
+    // Look again: the collections may have changed while the prompt was open
+    const existing = settings.collections.find(c => c.name === name);
+    if (isInstalled(existing)) {
+        return;
+    }
+
+    if (existing) {
+        // Keep local choices: bindings and where values are remembered
+        Object.assign(existing, { ...collection, presets: existing.presets, bindings: existing.bindings, valueScope: existing.valueScope, globalValues: existing.globalValues });
+    } else {
+        const preset = getCurrentPreset();
+        if (source === 'preset' && preset?.name === sourceName && !settings.collections.some(c => hasPresetBinding(c, preset))) {
+            collection.presets.push(preset);
+        }
+        settings.collections.push(collection);
+    }
+
+    const installed = existing ?? collection;
+    settings.collections.forEach((c) => {
+        c.active = c === installed;
+    });
+    commitSliderChanges(settings, installed.sliders);
+    renderSliderConfigs(settings);
+    toastr.success(`${existing ? 'Updated' : 'Installed'} slider collection "${name}" from the ${sourceLabel}.`);
+}
+
+// ============================================================================
+// End Embedded Collections
+// ============================================================================
+
+// ============================================================================
+// Recycle Bin
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Puts a deleted collection, group or slider in the recycle bin.
+ * @param settings - Extension settings containing the trash
+ * @param entry - The deleted item and where it came from
+ */
+function moveToTrash(settings: ExtensionSettings, entry: Omit<TrashItem, 'deletedAt'>): void {
+    settings.trash.push({ ...entry, deletedAt: Date.now() });
+    purgeExpiredTrash(settings);
+}
+
+/**
+ * Permanently removes items that have been in the recycle bin longer than the retention period.
+ * @param settings - Extension settings containing the trash
+ * @returns The number of items removed
+ */
+function purgeExpiredTrash(settings: ExtensionSettings): number {
+    const days = Number(settings.trashRetentionDays) || 0;
+    if (days <= 0) {
+        return 0;
+    }
+    const cutoff = Date.now() - days * DAY_MS;
+    const before = settings.trash.length;
+    settings.trash = settings.trash.filter(entry => entry.deletedAt >= cutoff);
+    const removed = before - settings.trash.length;
+    if (removed > 0) {
+        console.debug(`[SliderMacros] Removed ${removed} expired item(s) from the recycle bin`);
+        saveSettingsDebounced();
+    }
+    return removed;
+}
+
+/**
+ * Gets the display name of a recycle bin item.
+ * @param entry - The recycle bin item
+ * @returns The collection, group or slider name
+ */
+function getTrashItemName(entry: TrashItem): string {
+    const item = entry.item as { name?: string; property?: string };
+    return item.name || item.property || 'Unnamed';
+}
+
+/**
+ * Puts an item from the recycle bin back.
+ * Collections come back under a free name; groups and sliders go back into the collection they were deleted from,
+ * or the active collection if that one is gone. A restored slider whose macro name is taken loses its macro name,
+ * and a restored group takes back the sliders that were in it and are still ungrouped.
+ * @param settings - Extension settings containing slider collections and the trash
+ * @param entry - The recycle bin item to restore
+ */
+function restoreTrashItem(settings: ExtensionSettings, entry: TrashItem): void {
+    const index = settings.trash.indexOf(entry);
+    if (index === -1) {
+        return;
+    }
+
+    if (entry.type === 'collection') {
+        const collection = normalizeCollection(entry.item as SliderCollection);
+        let name = collection.name;
+        for (let i = 2; settings.collections.some(c => c.name === name); i++) {
+            name = `${collection.name} (${i})`;
+        }
+        collection.name = name;
+        collection.active = false;
+        settings.collections.push(collection);
+        toastr.success(`Restored collection "${name}".`);
+    } else {
+        const target = settings.collections.find(c => c.name === entry.collection) ?? settings.collections.find(c => c.active);
+        if (!target) {
+            return;
+        }
+
+        if (entry.type === 'slider') {
+            const slider = normalizeSlider(entry.item as SliderModel);
+            if (slider.groupId && !target.groups.some(g => g.id === slider.groupId)) {
+                slider.groupId = null;
+            }
+            if (slider.property && target.sliders.some(s => s.property === slider.property)) {
+                toastr.warning(`Another slider already uses {{${slider.property}}}; the restored slider's macro name was cleared.`);
+                slider.property = '';
+            }
+            target.sliders.push(slider);
+        } else {
+            const group = entry.item as SliderGroup;
+            target.groups.push(group);
+            target.sliders.forEach((slider) => {
+                if (!slider.groupId && entry.groupedSliders?.includes(getSliderId(slider))) {
+                    slider.groupId = group.id;
+                }
+            });
+        }
+        toastr.success(`Restored ${entry.type} "${getTrashItemName(entry)}" into "${target.name}".`);
+    }
+
+    settings.trash.splice(index, 1);
+    saveSettingsDebounced();
+    updateSliderMacros(settings);
+    renderSliderConfigs(settings);
+}
+
+/**
+ * Shows the recycle bin, listing deleted items with restore and delete-forever buttons,
+ * along with the retention setting.
+ * @param settings - Extension settings containing the trash
+ */
+async function showRecycleBin(settings: ExtensionSettings): Promise<void> {
+    purgeExpiredTrash(settings);
+
+    const html = `
+        <div class="slider_macros_trash">
+            <div class="slider_macros_trash_list"></div>
+            <div class="slider_macros_trash_footer">
+                <label class="slider_macros_label" for="slider_macros_trash_days">Delete items after</label>
+                <input class="text_pole slider_macros_trash_days" type="number" id="slider_macros_trash_days" min="0" title="0 keeps items until they are deleted by hand">
+                <span>days</span>
+                <div class="menu_button menu_button_icon slider_macros_btn_danger slider_macros_trash_empty" title="Delete everything in the recycle bin forever">
+                    <i class="fa-solid fa-dumpster"></i>
+                    <span>Empty</span>
+                </div>
+            </div>
+        </div>
+    `;
+
+    const renderList = (listElement: HTMLElement) => {
+        listElement.innerHTML = '';
+        if (settings.trash.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'slider_macros_search_empty';
+            empty.textContent = 'The recycle bin is empty.';
+            listElement.appendChild(empty);
+            return;
+        }
+
+        const icons: Record<TrashItem['type'], string> = { collection: 'fa-folder', group: 'fa-layer-group', slider: 'fa-sliders' };
+        const days = Number(settings.trashRetentionDays) || 0;
+        // Newest first
+        [...settings.trash].reverse().forEach((entry) => {
+            const row = document.createElement('div');
+            row.className = 'slider_macros_trash_row';
+
+            const icon = document.createElement('i');
+            icon.className = `fa-solid ${icons[entry.type]}`;
+            icon.title = entry.type;
+            row.appendChild(icon);
+
+            const info = document.createElement('div');
+            info.className = 'slider_macros_trash_info';
+            const name = document.createElement('span');
+            name.className = 'slider_macros_trash_name';
+            name.textContent = getTrashItemName(entry);
+            const details = document.createElement('small');
+            const deleted = new Date(entry.deletedAt).toLocaleString();
+            const origin = entry.type === 'collection' ? 'Collection' : `From "${entry.collection}"`;
+            const expiry = days > 0 ? `, expires in ${Math.max(0, Math.ceil((entry.deletedAt + days * DAY_MS - Date.now()) / DAY_MS))} day(s)` : '';
+            details.textContent = `${origin}, deleted ${deleted}${expiry}`;
+            info.appendChild(name);
+            info.appendChild(details);
+            row.appendChild(info);
+
+            const restoreButton = document.createElement('div');
+            restoreButton.className = 'menu_button menu_button_icon';
+            restoreButton.title = 'Restore';
+            restoreButton.innerHTML = '<i class="fa-solid fa-trash-arrow-up"></i>';
+            restoreButton.addEventListener('click', () => {
+                restoreTrashItem(settings, entry);
+                renderList(listElement);
+            });
+            row.appendChild(restoreButton);
+
+            const deleteButton = document.createElement('div');
+            deleteButton.className = 'menu_button menu_button_icon slider_macros_btn_danger';
+            deleteButton.title = 'Delete forever';
+            deleteButton.innerHTML = '<i class="fa-solid fa-times"></i>';
+            deleteButton.addEventListener('click', () => {
+                // The entry is gone if the bin changed while the popup was open (undo/redo, expiry)
+                const index = settings.trash.indexOf(entry);
+                if (index !== -1) {
+                    settings.trash.splice(index, 1);
+                    saveSettingsDebounced();
+                }
+                renderList(listElement);
+            });
+            row.appendChild(deleteButton);
+
+            listElement.appendChild(row);
+        });
+    };
+
+    const popup = Popup.show.text('Recycle Bin', html);
+
+    // After popup opens, attach event listeners
+    setTimeout(() => {
+        const listElement = document.querySelector('.slider_macros_trash_list') as HTMLDivElement;
+        const daysInput = document.getElementById('slider_macros_trash_days') as HTMLInputElement;
+        const emptyButton = document.querySelector('.slider_macros_trash_empty') as HTMLDivElement;
+        if (!listElement || !daysInput || !emptyButton) {
+            return;
+        }
+
+        renderList(listElement);
+        daysInput.value = String(settings.trashRetentionDays);
+        daysInput.addEventListener('change', () => {
+            settings.trashRetentionDays = Math.max(0, parseInt(daysInput.value, 10) || 0);
+            daysInput.value = String(settings.trashRetentionDays);
+            purgeExpiredTrash(settings);
+            saveSettingsDebounced();
+            renderList(listElement);
+        });
+        emptyButton.addEventListener('click', async () => {
+            if (settings.trash.length === 0) {
+                return;
+            }
+            const confirm = await Popup.show.confirm('Empty Recycle Bin', `Delete all ${settings.trash.length} item(s) in the recycle bin forever?`);
+            if (!confirm) {
+                return;
+            }
+            settings.trash = [];
+            saveSettingsDebounced();
+            renderList(listElement);
+        });
+    }, 50);
+
+    await popup;
+}
+
+// ============================================================================
+// End Recycle Bin
+// ============================================================================
+
+// ============================================================================
+// Undo / Redo History
+// ============================================================================
+
+const HISTORY_LIMIT = 50;
+const UNDO_BUTTON_CLASS = 'slider_macros_undo_btn';
+const REDO_BUTTON_CLASS = 'slider_macros_redo_btn';
+
+// Where user edits happen: the settings panel, the drawer, and the recycle bin, merge and binding popups
+const HISTORY_EDIT_SELECTOR = '#slider_macros_settings, #slider_macros_drawer, .slider_macros_trash, .slider_macros_merge, .slider_macros_bindings';
+// Controls whose use can change the collections; clicks elsewhere (headers, labels) don't start an edit
+const HISTORY_CONTROL_SELECTOR = 'input, select, textarea, button, .menu_button';
+
+// Serialized collections before each recorded change, oldest first
+const undoStack: string[] = [];
+const redoStack: string[] = [];
+// Serialized collections from before the user edit in progress, taken when the user first touches the config UI.
+// Null while no edit is in progress, so saves made by the extension itself (rolls, triggers, turns, directives,
+// sweeps) cost nothing and never become undo entries.
+let pendingEditState: string | null = null;
+
+/**
+ * Serializes everything the history covers: all collections with their sliders, groups, values and settings,
+ * and the recycle bin (so undoing a delete doesn't leave a copy in the bin).
+ * @param settings - Extension settings containing slider collections
+ * @returns The serialized state
+ */
+function serializeHistoryState(settings: ExtensionSettings): string {
+    return JSON.stringify({ collections: settings.collections, trash: settings.trash });
+}
+
+/**
+ * Starts a user edit: keeps the state from before it, unless an edit is already in progress.
+ * @param settings - Extension settings containing slider collections
+ */
+function beginHistoryEdit(settings: ExtensionSettings): void {
+    if (pendingEditState === null) {
+        pendingEditState = serializeHistoryState(settings);
+    }
+}
+
+/**
+ * Ends the user edit in progress, recording a history entry if it changed anything.
+ * Runs when settings are saved, so changes made in quick succession (dragging a slider, typing a name)
+ * end up in a single entry. The extension's own changes call it first, so they aren't counted as part of the edit.
+ * @param settings - Extension settings containing slider collections
+ */
+function recordHistory(settings: ExtensionSettings): void {
+    if (pendingEditState === null) {
+        return;
+    }
+
+    const previousState = pendingEditState;
+    pendingEditState = null;
+    if (serializeHistoryState(settings) === previousState) {
+        return;
+    }
+
+    undoStack.push(previousState);
+    if (undoStack.length > HISTORY_LIMIT) {
+        undoStack.shift();
+    }
+    redoStack.length = 0;
+    updateHistoryButtons();
+}
+
+/**
+ * Closes the user edit in progress before the extension changes sliders on its own (rolls, triggers, turn automation,
+ * directives, sweeps, binding switches, values loaded on chat change). The edit is recorded as it stands, and since
+ * none is in progress afterwards, the automated change that follows isn't folded into it or recorded at all.
+ * @param settings - Extension settings containing slider collections
+ */
+function endPendingUserEdit(settings: ExtensionSettings): void {
+    recordHistory(settings);
+}
+
+/**
+ * Replaces all collections with a state from the history and brings everything that depends on them up to date:
+ * variables, scoped values, macros, the settings panel and the drawer.
+ * @param settings - Extension settings containing slider collections
+ * @param state - Serialized collections to restore
+ */
+function restoreHistoryState(settings: ExtensionSettings, state: string): void {
+    const restored = JSON.parse(state) as { collections: Partial<SliderCollection>[]; trash: TrashItem[] };
+    settings.collections = restored.collections.map(normalizeCollection);
+    settings.trash = restored.trash;
+    const activeCollection = settings.collections.find(c => c.active);
+    commitSliderChanges(settings, activeCollection?.sliders ?? []);
+    renderSliderConfigs(settings);
+    pendingEditState = null;
+    updateHistoryButtons();
+}
+
+/**
+ * Undoes the last change to the collections.
+ * @param settings - Extension settings containing slider collections
+ */
+function undoHistory(settings: ExtensionSettings): void {
+    // Pick up a change whose save hasn't gone through yet, so it is the one undone
+    recordHistory(settings);
+    const state = undoStack.pop();
+    if (state === undefined) {
+        toastr.info('Nothing to undo.');
+        return;
+    }
+    redoStack.push(serializeHistoryState(settings));
+    restoreHistoryState(settings, state);
+}
+
+/**
+ * Redoes the last undone change to the collections.
+ * @param settings - Extension settings containing slider collections
+ */
+function redoHistory(settings: ExtensionSettings): void {
+    recordHistory(settings);
+    const state = redoStack.pop();
+    if (state === undefined) {
+        toastr.info('Nothing to redo.');
+        return;
+    }
+    undoStack.push(serializeHistoryState(settings));
+    restoreHistoryState(settings, state);
+}
+
+/**
+ * Dims the undo/redo buttons in the settings panel and the drawer when there is nothing to undo or redo.
+ */
+function updateHistoryButtons(): void {
+    document.querySelectorAll(`.${UNDO_BUTTON_CLASS}`).forEach(button => button.classList.toggle('disabled', undoStack.length === 0));
+    document.querySelectorAll(`.${REDO_BUTTON_CLASS}`).forEach(button => button.classList.toggle('disabled', redoStack.length === 0));
+}
+
+/**
+ * Wires up history recording, the undo/redo buttons and their keyboard shortcuts
+ * (Ctrl+Z, and Ctrl+Y or Ctrl+Shift+Z, inside the settings panel or the drawer).
+ * @param settings - Extension settings containing slider collections
+ */
+function setupHistory(settings: ExtensionSettings): void {
+    updateHistoryButtons();
+    eventSource.on(event_types.SETTINGS_UPDATED, () => recordHistory(getSettings()));
+
+    // Capture phase, so the state is taken before the control's own handler changes it
+    const onUserEdit = (e: Event) => {
+        const control = (e.target as HTMLElement)?.closest?.(HISTORY_CONTROL_SELECTOR);
+        if (control?.closest(HISTORY_EDIT_SELECTOR) && !control.closest(`.${UNDO_BUTTON_CLASS}, .${REDO_BUTTON_CLASS}`)) {
+            beginHistoryEdit(getSettings());
+        }
+    };
+    for (const type of ['input', 'change', 'click']) {
+        document.addEventListener(type, onUserEdit, true);
+    }
+
+    $(document).on('click', `.${UNDO_BUTTON_CLASS}`, () => undoHistory(getSettings()));
+    $(document).on('click', `.${REDO_BUTTON_CLASS}`, () => redoHistory(getSettings()));
+
+    document.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+            return;
+        }
+        const target = e.target as HTMLElement;
+        if (!target?.closest?.('#slider_macros_settings, #slider_macros_drawer')) {
+            return;
+        }
+        // Text fields keep the browser's own undo for what is being typed
+        if (target.matches('textarea, input[type="text"], input[type="number"], [contenteditable="true"]')) {
+            return;
+        }
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            undoHistory(getSettings());
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+            e.preventDefault();
+            redoHistory(getSettings());
+        }
+    });
+}
+
+// ============================================================================
+// End Undo / Redo History
+// ============================================================================
+
+// ============================================================================
+// Generation Stamps
+// ============================================================================
+
+const STAMP_BUTTON_CLASS = 'slider_macros_stamp_btn';
+const SWEEP_LABEL_CLASS = 'slider_macros_sweep_label';
+
+// Stamp captured when a generation starts, attached to the message it produces
+let pendingGenerationStamp: GenerationStamp | null = null;
+
+/**
+ * Records the active collection's slider values and resolved outputs at the time of a generation.
+ * @param settings - Extension settings containing slider collections
+ * @returns The stamp, or null if there is no active collection
+ */
+function createGenerationStamp(settings: ExtensionSettings): GenerationStamp | null {
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return null;
+    }
+
+    const values: GenerationStamp['values'] = {};
+    const outputs: GenerationStamp['outputs'] = [];
+    activeCollection.sliders.forEach((slider) => {
+        if (slider.type !== 'Computed') {
+            values[getSliderId(slider)] = getEffectiveSliderValue(slider);
+        }
+        const isComputed = slider.type === 'Computed' && slider.enabled && slider.property;
+        if (isSliderRenderable(slider) || isComputed) {
+            outputs.push({ name: slider.name || slider.property, output: createSliderMacroHandler(slider, activeCollection)() });
+        }
+    });
+
+    const stamp: GenerationStamp = { collection: activeCollection.name, values, outputs };
+    if (activeSweepLabel) {
+        stamp.label = activeSweepLabel;
+    }
+    return stamp;
+}
+
+/**
+ * Re-takes the pending stamp when sliders change after the generation started but before the reply arrives
+ * (e.g. triggers or automation running on the sent user message), so the stamp shows the values actually used.
+ * @param settings - Extension settings containing slider collections
+ */
+function refreshPendingGenerationStamp(settings: ExtensionSettings): void {
+    if (pendingGenerationStamp) {
+        pendingGenerationStamp = createGenerationStamp(settings);
+    }
+}
+
+/**
+ * Writes the pending stamp onto a received message (and its current swipe, so each swipe keeps its own stamp).
+ * @param messageId - Index of the received message in the chat
+ */
+function stampReceivedMessage(messageId: number): void {
+    const stamp = pendingGenerationStamp;
+    pendingGenerationStamp = null;
+    const { chat, saveChat } = SillyTavern.getContext();
+    const message = chat?.[messageId];
+    if (!stamp || !message || message.is_user) {
+        return;
+    }
+
+    message.extra = message.extra || {};
+    message.extra[MODULE_NAME] = stamp;
+    const swipeInfo = message.swipe_info?.[message.swipe_id ?? 0];
+    if (swipeInfo) {
+        swipeInfo.extra = swipeInfo.extra || {};
+        swipeInfo.extra[MODULE_NAME] = structuredClone(stamp);
+    }
+    saveChat?.();
+}
+
+/**
+ * Adds the stamp button to every rendered message that carries a stamp, and removes it from those that don't
+ * (e.g. after swiping to a swipe generated without one).
+ */
+function renderStampButtons(): void {
+    const { chat } = SillyTavern.getContext();
+    document.querySelectorAll('#chat .mes').forEach((messageElement) => {
+        const messageId = Number(messageElement.getAttribute('mesid'));
+        const stamp: GenerationStamp | undefined = chat?.[messageId]?.extra?.[MODULE_NAME];
+        const existing = messageElement.querySelector(`.${STAMP_BUTTON_CLASS}`);
+        if (stamp && !existing) {
+            const button = document.createElement('div');
+            button.className = `mes_button ${STAMP_BUTTON_CLASS} fa-solid fa-sliders interactable`;
+            button.title = 'Slider values used for this message';
+            button.tabIndex = 0;
+            messageElement.querySelector('.extraMesButtons')?.prepend(button);
+        } else if (!stamp && existing) {
+            existing.remove();
+        }
+
+        // Sweep swipes show the value they were generated with next to the character name
+        let badge = messageElement.querySelector(`.${SWEEP_LABEL_CLASS}`);
+        if (stamp?.label) {
+            if (!badge) {
+                badge = document.createElement('small');
+                badge.className = SWEEP_LABEL_CLASS;
+                messageElement.querySelector('.ch_name')?.appendChild(badge);
+            }
+            badge.textContent = stamp.label;
+        } else {
+            badge?.remove();
+        }
+    });
+}
+
+const debouncedRenderStampButtons = debounce(renderStampButtons, DEBOUNCE_DELAY);
+
+/**
+ * Shows the slider values stamped on a message, offering to restore them.
+ * Restoring switches to the stamped collection if needed and applies the values like a snapshot.
+ * @param messageId - Index of the message in the chat
+ */
+async function showGenerationStamp(messageId: number): Promise<void> {
+    const { chat } = SillyTavern.getContext();
+    const stamp: GenerationStamp | undefined = chat?.[messageId]?.extra?.[MODULE_NAME];
+    if (!stamp) {
+        return;
+    }
+
+    // Build with the DOM so slider names and outputs are escaped
+    const list = document.createElement('div');
+    list.className = 'slider_macros_stamp_list';
+    const collectionLine = document.createElement('div');
+    collectionLine.className = 'slider_macros_stamp_collection';
+    collectionLine.textContent = `Collection: ${stamp.collection}` + (stamp.label ? ` (sweep: ${stamp.label})` : '');
+    list.appendChild(collectionLine);
+    stamp.outputs.forEach(({ name, output }) => {
+        const row = document.createElement('div');
+        row.className = 'slider_macros_stamp_row';
+        const nameElement = document.createElement('span');
+        nameElement.className = 'slider_macros_stamp_name';
+        nameElement.textContent = name;
+        const outputElement = document.createElement('span');
+        outputElement.className = 'slider_macros_stamp_output';
+        outputElement.textContent = output === '' ? '(empty)' : output;
+        row.appendChild(nameElement);
+        row.appendChild(outputElement);
+        list.appendChild(row);
+    });
+
+    const restore = await Popup.show.confirm('Slider values for this message', list.outerHTML, {
+        okButton: 'Restore these values',
+        cancelButton: 'Close',
+    });
+    if (!restore) {
+        return;
+    }
+
+    const settings = getSettings();
+    const collection = settings.collections.find(c => c.name === stamp.collection);
+    if (!collection) {
+        toastr.warning(`Collection "${stamp.collection}" no longer exists.`);
+        return;
+    }
+    if (!collection.active) {
+        settings.collections.forEach((c) => {
+            c.active = c === collection;
+        });
+        renderSliderConfigs(settings);
+    }
+    applySnapshot(settings, { name: stamp.collection, values: stamp.values });
+    toastr.success('Slider values restored.');
+}
+
+/**
+ * Wires up stamping of generations and the message-level stamp button.
+ */
+function setupGenerationStamps(): void {
+    eventSource.on(event_types.GENERATION_AFTER_COMMANDS, (type: string, _options: unknown, dryRun: boolean) => {
+        // Impersonation and quiet generations don't produce a chat message to stamp
+        if (dryRun || type === 'impersonate' || type === 'quiet') {
+            return;
+        }
+        pendingGenerationStamp = createGenerationStamp(getSettings());
+    });
+    // A stamp not picked up by its message (stopped or failed generation, chat switched away) must not attach
+    // to the next unrelated one. GENERATION_ENDED comes after the reply's MESSAGE_RECEIVED, and also on errors.
+    for (const event of [event_types.GENERATION_STOPPED, event_types.GENERATION_ENDED, event_types.CHAT_CHANGED]) {
+        eventSource.on(event, () => {
+            pendingGenerationStamp = null;
+        });
+    }
+    eventSource.on(event_types.MESSAGE_RECEIVED, (messageId: number) => stampReceivedMessage(Number(messageId)));
+
+    for (const event of [event_types.CHARACTER_MESSAGE_RENDERED, event_types.MESSAGE_SWIPED, event_types.MESSAGE_UPDATED, event_types.MORE_MESSAGES_LOADED, event_types.CHAT_CHANGED]) {
+        eventSource.on(event, debouncedRenderStampButtons);
+    }
+
+    $(document).on('click', `.${STAMP_BUTTON_CLASS}`, function () {
+        const messageId = Number($(this).closest('.mes').attr('mesid'));
+        showGenerationStamp(messageId);
+    });
+}
+
+// ============================================================================
+// End Generation Stamps
+// ============================================================================
+
+// ============================================================================
+// Turn-Based Automation
+// ============================================================================
+
+/**
+ * Snaps a number to a Numeric slider's step grid (counted from min) and clamps it to the bounds.
+ * @param slider - The Numeric slider
+ * @param value - The number to snap
+ * @returns The snapped, clamped number
+ */
+function snapToSliderStep(slider: SliderModel, value: number): number {
+    const step = parseFloat(slider.step);
+    const min = parseFloat(slider.min) || 0;
+    const snapped = step > 0 ? min + Math.round((value - min) / step) * step : value;
+    // Round away floating point noise introduced by fractional steps
+    return clampNumericValue(slider, parseFloat(snapped.toFixed(10)));
+}
+
+/**
+ * Works out a Numeric slider's next value for a turn, from its schedule and its behavior.
+ * A scheduled change for this turn wins over the behavior.
+ * @param slider - The slider to advance
+ * @param turn - The turn that just started
+ * @returns The new value, or null if nothing happens this turn
+ */
+function getAutomatedValue(slider: SliderModel, turn: number): SliderModel['value'] | null {
+    const scheduled = (slider.schedule || []).find(change => change.turn === turn);
+    if (scheduled) {
+        const value = parseSliderValue(slider, scheduled.value);
+        if (value === null) {
+            console.warn(`[SliderMacros] Scheduled value "${scheduled.value}" is invalid for slider "${slider.name}"`);
+        }
+        return value;
+    }
+
+    if (slider.type !== 'Numeric' || !slider.behavior || slider.behavior === 'none' || turn % Math.max(1, slider.behaviorEvery) !== 0) {
+        return null;
+    }
+
+    const current = Number(slider.value) || 0;
+    const amount = slider.behaviorAmount.trim() !== '' ? parseFloat(slider.behaviorAmount) : parseFloat(slider.step) || 1;
+    if (isNaN(amount)) {
+        return null;
+    }
+
+    switch (slider.behavior) {
+        case 'drift':
+            return snapToSliderStep(slider, current + amount);
+        case 'decay': {
+            const target = Number(getSliderDefaultValue(slider));
+            const distance = target - current;
+            // Move toward the default without overshooting it
+            return snapToSliderStep(slider, Math.abs(distance) <= Math.abs(amount) ? target : current + Math.sign(distance) * Math.abs(amount));
+        }
+        case 'randomWalk':
+            return snapToSliderStep(slider, current + (Math.random() * 2 - 1) * Math.abs(amount));
+        default:
+            return null;
+    }
+}
+
+/**
+ * Advances the chat's turn counter and runs every slider's schedule and behavior for the new turn.
+ * Called for each user message, before the reply is generated; changes go through the normal commit path.
+ * @param settings - Extension settings containing slider collections
+ * @returns The new turn number, or null if there is no chat
+ */
+function advanceTurn(settings: ExtensionSettings): number | null {
+    endPendingUserEdit(settings);
+    const context = SillyTavern.getContext();
+    if (!context.chatId || !context.chatMetadata) {
+        return null;
+    }
+
+    const metadata = context.chatMetadata[MODULE_NAME] = context.chatMetadata[MODULE_NAME] || {};
+    const turn = metadata.turn = (Number(metadata.turn) || 0) + 1;
+    (context.saveMetadataDebounced ?? context.saveMetadata)?.();
+
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection) {
+        return turn;
+    }
+
+    const changed: SliderModel[] = [];
+    activeCollection.sliders.forEach((slider) => {
+        if (!slider.enabled || slider.type === 'Computed') {
+            return;
+        }
+        const value = getAutomatedValue(slider, turn);
+        if (value !== null && value !== slider.value) {
+            slider.value = value;
+            changed.push(slider);
+        }
+    });
+
+    if (changed.length > 0) {
+        commitSliderChanges(settings, changed);
+        renderCompletionSliders(settings);
+        refreshPendingGenerationStamp(settings);
+        console.debug(`[SliderMacros] Turn ${turn}: automation changed ${changed.length} slider(s)`);
+    }
+    return turn;
+}
+
+/**
+ * Gets the current chat's turn number.
+ * @returns The turn number (0 before the first user message)
+ */
+function getCurrentTurn(): number {
+    const { chatMetadata } = SillyTavern.getContext();
+    return Number(chatMetadata?.[MODULE_NAME]?.turn) || 0;
+}
+
+// ============================================================================
+// End Turn-Based Automation
+// ============================================================================
+
+// ============================================================================
+// Roll Per Generation
+// ============================================================================
+
+// Values rolled at the start of the last generation for sliders that don't show their roll, used by their macros
+const rolledValues = new Map<SliderModel, SliderModel['value']>();
+
+/**
+ * Checks whether a slider's type supports rolling a random value.
+ * @param slider - The slider to check
+ * @returns True for Numeric, Boolean, Checkbox, MultiSelect and Dropdown sliders
+ */
+function isRandomizableSlider(slider: SliderModel): boolean {
+    return ['Numeric', 'Boolean', 'Checkbox', 'MultiSelect', 'Dropdown'].includes(slider.type);
+}
+
+/**
+ * Gets the value a slider's outputs should use: the value rolled for the current generation if there is one,
+ * otherwise its stored value.
+ * @param slider - The slider
+ * @returns The value in effect
+ */
+function getEffectiveSliderValue(slider: SliderModel): SliderModel['value'] {
+    return slider.randomize && rolledValues.has(slider) ? rolledValues.get(slider)! : slider.value;
+}
+
+/**
+ * Parses a slider's weight list. Missing, invalid or negative entries count as 1 (0 is allowed to rule an entry out).
+ * @param slider - The slider
+ * @param count - Number of entries to weigh (options, or bands for Numeric)
+ * @returns One weight per entry
+ */
+function getRandomWeights(slider: SliderModel, count: number): number[] {
+    const parts = slider.randomWeights.split(',').map(part => parseFloat(part.trim()));
+    return Array.from({ length: count }, (_, i) => (parts[i] >= 0 ? parts[i] : 1));
+}
+
+/**
+ * Picks a random index, with each index's chance proportional to its weight.
+ * @param weights - Weight of each index
+ * @returns The picked index, or -1 if all weights are 0
+ */
+function pickWeightedIndex(weights: number[]): number {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!(total > 0)) {
+        return -1;
+    }
+    let roll = Math.random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) {
+            return i;
+        }
+    }
+    return weights.length - 1;
+}
+
+/**
+ * Rolls a random value for a slider inside its configured bounds or options.
+ * Numeric sliders with weights split min–max into as many equal bands as there are weights, pick a band by weight,
+ * then a uniform number inside it; the result is snapped to the step.
+ * @param slider - The slider to roll for
+ * @returns The rolled value, or null if the slider has nothing to roll from
+ */
+function rollSliderValue(slider: SliderModel): SliderModel['value'] | null {
+    switch (slider.type) {
+        case 'Numeric': {
+            const min = parseFloat(slider.min);
+            const max = parseFloat(slider.max);
+            if (isNaN(min) || isNaN(max) || max < min) {
+                return null;
+            }
+            const bands = slider.randomWeights.trim() === '' ? 1 : slider.randomWeights.split(',').length;
+            const band = pickWeightedIndex(getRandomWeights(slider, bands));
+            if (band < 0) {
+                return null;
+            }
+            const width = (max - min) / bands;
+            return snapToSliderStep(slider, min + (band + Math.random()) * width);
+        }
+        case 'Boolean':
+        case 'Checkbox': {
+            const isTrue = Math.random() < Math.min(1, Math.max(0, Number(slider.randomChance)));
+            return slider.type === 'Boolean' ? (isTrue ? 1 : 0) : isTrue;
+        }
+        case 'MultiSelect': {
+            const count = (slider.options || []).filter(o => o.trim() !== '').length;
+            const index = pickWeightedIndex(getRandomWeights(slider, count));
+            return index < 0 ? null : index;
+        }
+        case 'Dropdown': {
+            const keys = (slider.dropdownOptions || []).filter(o => o.key.trim() !== '').map(o => o.key);
+            const index = pickWeightedIndex(getRandomWeights(slider, keys.length));
+            return index < 0 ? null : keys[index];
+        }
+        default:
+            return null;
+    }
+}
 
-    if (format === 'rgb') {
-        return `rgb(${r}, ${g}, ${b})`;
+/**
+ * Rolls new values for every enabled roll-per-generation slider in the active collection.
+ * Sliders set to show their roll get it as their value (through the normal commit path, so variables follow);
+ * the others keep their value and only their outputs use the roll until the next generation.
+ * @param settings - Extension settings containing slider collections
+ */
+function rollRandomizedSliders(settings: ExtensionSettings): void {
+    endPendingUserEdit(settings);
+    // A sweep compares swipes that differ in one slider only, so the rolls from before the sweep stay in effect
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection || sweepInProgress) {
+        return;
     }
 
-    // Convert RGB to HSV
-    const rNorm = r / 255;
-    const gNorm = g / 255;
-    const bNorm = b / 255;
+    const shown: SliderModel[] = [];
+    activeCollection.sliders.forEach((slider) => {
+        if (!slider.enabled || !slider.randomize || !isRandomizableSlider(slider)) {
+            return;
+        }
+        const value = rollSliderValue(slider);
+        if (value === null) {
+            return;
+        }
+        if (slider.randomShow) {
+            slider.value = value;
+            shown.push(slider);
+        } else {
+            rolledValues.set(slider, value);
+        }
+    });
 
-    const max = Math.max(rNorm, gNorm, bNorm);
-    const min = Math.min(rNorm, gNorm, bNorm);
-    const delta = max - min;
+    if (shown.length > 0) {
+        commitSliderChanges(settings, shown);
+        renderCompletionSliders(settings);
+    }
+}
 
-    let h = 0;
-    if (delta !== 0) {
-        if (max === rNorm) {
-            h = ((gNorm - bNorm) / delta) % 6;
-        } else if (max === gNorm) {
-            h = (bNorm - rNorm) / delta + 2;
-        } else {
-            h = (rNorm - gNorm) / delta + 4;
+// ============================================================================
+// End Roll Per Generation
+// ============================================================================
+
+// ============================================================================
+// Keyword Triggers
+// ============================================================================
+
+/**
+ * Builds a matcher for a trigger pattern: "/regex/flags", or comma separated keywords matched as whole words, case-insensitive.
+ * @param pattern - The trigger pattern
+ * @returns A regular expression, or null if the pattern is empty or an invalid regex
+ */
+function createTriggerMatcher(pattern: string): RegExp | null {
+    const text = pattern.trim();
+    const regexMatch = text.match(/^\/([\s\S]+)\/([a-z]*)$/);
+    if (regexMatch) {
+        try {
+            return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+        } catch {
+            return null;
         }
-        h = Math.round(h * 60);
-        if (h < 0) h += 360;
     }
 
-    const s = max === 0 ? 0 : Math.round((delta / max) * 100);
-    const v = Math.round(max * 100);
+    const keywords = text.split(',').map(k => k.trim()).filter(k => k !== '');
+    if (keywords.length === 0) {
+        return null;
+    }
+    const alternatives = keywords.map((keyword) => {
+        const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        // Only add word boundaries next to word characters, so keywords like "!!" still match
+        return (/^\w/.test(keyword) ? '\\b' : '') + escaped + (/\w$/.test(keyword) ? '\\b' : '');
+    });
+    return new RegExp(alternatives.join('|'), 'i');
+}
 
-    return `hsv(${h}, ${s}%, ${v}%)`;
+/**
+ * Gets the key a trigger's cooldown is tracked under. Keyed by what the rule does rather than its position,
+ * so deleting or reordering rules doesn't hand one rule's cooldown to another; an edited rule starts fresh.
+ * @param slider - The slider owning the trigger
+ * @param trigger - The trigger rule
+ * @returns The cooldown key
+ */
+function getTriggerKey(slider: SliderModel, trigger: SliderTrigger): string {
+    return `${getSliderId(slider)}#${trigger.pattern}=>${trigger.value}`;
 }
 
+/**
+ * Runs the active collection's trigger rules against a user message.
+ * For each slider the highest-priority matching rule that is off cooldown sets the value through the normal
+ * commit path. Cooldowns are counted in chat messages and stored in the chat metadata.
+ * @param settings - Extension settings containing slider collections
+ * @param messageId - Index of the user message in the chat
+ * @returns True if any slider changed
+ */
+function applyMessageTriggers(settings: ExtensionSettings, messageId: number): boolean {
+    endPendingUserEdit(settings);
+    const activeCollection = settings.collections.find(c => c.active);
+    const context = SillyTavern.getContext();
+    const message = context.chat?.[messageId];
+    if (!activeCollection || !message?.is_user || typeof message.mes !== 'string' || !context.chatMetadata) {
+        return false;
+    }
 
-// Preset binding event handler without the chat completion body append stuff.
-function setupEventHandlers(settings: ExtensionSettings): void {
-    const onPresetChanged = (delay: number = 500) => {
-        const presetName = chatCompletionSettings.preset_settings_openai;
-        const activeCollection = settings.collections.find(c => c.active);
-        if (!activeCollection) {
+    const metadata = context.chatMetadata[MODULE_NAME] = context.chatMetadata[MODULE_NAME] || {};
+    const fired: Record<string, number> = metadata.triggerFired = metadata.triggerFired || {};
+
+    const changed: SliderModel[] = [];
+    activeCollection.sliders.forEach((slider) => {
+        if (!slider.enabled || slider.type === 'Computed' || !(slider.triggers || []).length) {
             return;
         }
 
-        const collectionWithPreset = settings.collections.find(c => c.presets.includes(presetName));
-        if (collectionWithPreset && collectionWithPreset !== activeCollection) {
-            collectionWithPreset.active = true;
-            activeCollection.active = false;
+        const candidates = slider.triggers
+            .filter((trigger) => {
+                const lastFired = fired[getTriggerKey(slider, trigger)];
+                if (lastFired !== undefined && lastFired <= messageId && messageId - lastFired <= trigger.cooldown) {
+                    return false;
+                }
+                return createTriggerMatcher(trigger.pattern)?.test(message.mes) ?? false;
+            })
+            .sort((a, b) => b.priority - a.priority);
+
+        for (const trigger of candidates) {
+            const value = parseSliderValue(slider, trigger.value);
+            if (value === null) {
+                console.warn(`[SliderMacros] Trigger value "${trigger.value}" is invalid for slider "${slider.name}"`);
+                continue;
+            }
+            fired[getTriggerKey(slider, trigger)] = messageId;
+            if (slider.value !== value) {
+                slider.value = value;
+                changed.push(slider);
+            }
+            console.debug(`[SliderMacros] Trigger "${trigger.pattern}" set slider "${slider.name}" to`, value);
+            break;
+        }
+    });
+
+    (context.saveMetadataDebounced ?? context.saveMetadata)?.();
+    if (changed.length === 0) {
+        return false;
+    }
 
-            saveSettingsDebounced();
-            renderSliderConfigs(settings);
+    commitSliderChanges(settings, changed);
+    renderCompletionSliders(settings);
+    refreshPendingGenerationStamp(settings);
+    return true;
+}
+
+// ============================================================================
+// End Keyword Triggers
+// ============================================================================
+
+// ============================================================================
+// LLM Directives
+// ============================================================================
+
+// <slider name="tension" value="0.8"/> (optionally closed with </slider>)
+const DIRECTIVE_TAG_REGEX = /<slider\b([^>]*?)\/?>(?:\s*<\/slider>)?/gi;
+// A fenced code block tagged "sliders" holding a JSON object: ```sliders {"tension": 0.8} ```
+const DIRECTIVE_BLOCK_REGEX = /```sliders\s*\n?([\s\S]*?)```/gi;
+const DIRECTIVE_ATTRIBUTE_REGEX = /(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Extracts slider directives (name → raw value) from a message. Later directives for the same slider win.
+ * @param text - The message text
+ * @returns The directives in the order they appear
+ */
+function parseSliderDirectives(text: string): { name: string; value: string }[] {
+    const directives: { name: string; value: string }[] = [];
+
+    for (const match of text.matchAll(DIRECTIVE_TAG_REGEX)) {
+        const attributes: Record<string, string> = {};
+        for (const attribute of match[1].matchAll(DIRECTIVE_ATTRIBUTE_REGEX)) {
+            attributes[attribute[1].toLowerCase()] = attribute[2] ?? attribute[3];
+        }
+        if (attributes.name !== undefined && attributes.value !== undefined) {
+            directives.push({ name: attributes.name, value: attributes.value });
+        }
+    }
+
+    for (const match of text.matchAll(DIRECTIVE_BLOCK_REGEX)) {
+        try {
+            const parsed = JSON.parse(match[1]);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                for (const [name, value] of Object.entries(parsed)) {
+                    directives.push({ name, value: Array.isArray(value) ? value.join(', ') : String(value) });
+                }
+            }
+        } catch {
+            console.warn('[SliderMacros] Ignoring malformed sliders block:', match[1]);
+        }
+    }
+
+    return directives;
+}
+
+/**
+ * Removes slider directives from a message, tidying up the blank lines they leave behind.
+ * @param text - The message text
+ * @returns The text without directives
+ */
+function stripSliderDirectives(text: string): string {
+    return text
+        .replace(DIRECTIVE_TAG_REGEX, '')
+        .replace(DIRECTIVE_BLOCK_REGEX, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Applies the slider directives in a received message to the active collection, if the collection allows it.
+ * Values are validated like /slider-set (clamped to min/max, matched against options); unknown sliders and
+ * invalid values are skipped. Optionally strips the directives from the message.
+ * @param settings - Extension settings containing slider collections
+ * @param messageId - Index of the received message in the chat
+ */
+function applyMessageDirectives(settings: ExtensionSettings, messageId: number): void {
+    endPendingUserEdit(settings);
+    const activeCollection = settings.collections.find(c => c.active);
+    if (!activeCollection?.directives.enabled) {
+        return;
+    }
+
+    const { chat, saveChat, updateMessageBlock } = SillyTavern.getContext();
+    const message = chat?.[messageId];
+    if (!message || message.is_user || message.is_system || typeof message.mes !== 'string') {
+        return;
+    }
+
+    const directives = parseSliderDirectives(message.mes);
+    if (directives.length === 0) {
+        return;
+    }
+
+    const changed = new Set<SliderModel>();
+    for (const directive of directives) {
+        const slider = findSlider(activeCollection, directive.name);
+        if (!slider) {
+            console.warn(`[SliderMacros] Directive for unknown slider "${directive.name}"`);
+            continue;
+        }
+        const value = parseSliderValue(slider, directive.value);
+        if (value === null) {
+            console.warn(`[SliderMacros] Invalid directive value "${directive.value}" for slider "${slider.name}"`);
+            continue;
+        }
+        slider.value = value;
+        changed.add(slider);
+    }
+
+    if (changed.size > 0) {
+        commitSliderChanges(settings, Array.from(changed));
+        renderCompletionSliders(settings);
+        console.debug(`[SliderMacros] Applied ${changed.size} slider directive(s) from message ${messageId}`);
+    }
+
+    if (activeCollection.directives.strip) {
+        message.mes = stripSliderDirectives(message.mes);
+        if (Array.isArray(message.swipes) && message.swipes[message.swipe_id ?? 0] !== undefined) {
+            message.swipes[message.swipe_id ?? 0] = message.mes;
+        }
+        updateMessageBlock?.(messageId, message);
+        saveChat?.();
+    }
+}
+
+// ============================================================================
+// End LLM Directives
+// ============================================================================
+
+// ============================================================================
+// Parameter Sweep
+// ============================================================================
+
+const MAX_SWEEP_VALUES = 20;
+// Waiting longer than this for a swipe to start means the swipe was refused
+const SWEEP_START_TIMEOUT = 10000;
+// A generation that fails without ending or stopping would otherwise hang the sweep
+const SWEEP_GENERATION_TIMEOUT = 5 * 60 * 1000;
+
+// Label of the sweep value being generated, picked up by the generation stamp
+let activeSweepLabel: string | null = null;
+let sweepInProgress = false;
+
+/**
+ * Parses a sweep specification into slider values.
+ * Accepts a comma separated list ("0.2, 0.5, 0.8" or "calm, tense") or, for Numeric sliders,
+ * a range "from..to" stepping by the slider's step, or "from..to:step".
+ * @param slider - The slider to sweep
+ * @param spec - The sweep specification
+ * @returns The values, or null (after warning the user) if the specification is invalid
+ */
+function parseSweepValues(slider: SliderModel, spec: string): SliderModel['value'][] | null {
+    const rangeMatch = spec.trim().match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)(?:\s*:\s*([\d.]+))?$/);
+    let rawValues: string[];
+
+    if (rangeMatch && slider.type === 'Numeric') {
+        const from = parseFloat(rangeMatch[1]);
+        const to = parseFloat(rangeMatch[2]);
+        const step = Math.abs(parseFloat(rangeMatch[3] ?? slider.step) || 0);
+        if (isNaN(from) || isNaN(to) || step === 0) {
+            toastr.warning('Invalid sweep range. Use from..to or from..to:step.');
+            return null;
+        }
+        rawValues = [];
+        const direction = to >= from ? 1 : -1;
+        // Allow for floating point noise at the end of the range
+        for (let v = from; direction * (to - v) >= -1e-9 && rawValues.length <= MAX_SWEEP_VALUES; v += direction * step) {
+            rawValues.push(parseFloat(v.toFixed(10)).toString());
+        }
+    } else {
+        rawValues = spec.split(',').map(v => v.trim()).filter(v => v !== '');
+    }
+
+    if (rawValues.length === 0) {
+        toastr.warning('No values to sweep.');
+        return null;
+    }
+    if (rawValues.length > MAX_SWEEP_VALUES) {
+        toastr.warning(`A sweep is limited to ${MAX_SWEEP_VALUES} values.`);
+        return null;
+    }
+
+    const values: SliderModel['value'][] = [];
+    for (const raw of rawValues) {
+        const parsed = parseSliderValue(slider, raw);
+        if (parsed === null) {
+            toastr.warning(`Invalid value "${raw}" for ${slider.type} slider "${slider.name}".`);
+            return null;
+        }
+        values.push(parsed);
+    }
+    return values;
+}
+
+/**
+ * Suggests a sweep specification for a slider: min, middle and max for Numeric sliders, every option otherwise.
+ * @param slider - The slider to sweep
+ * @returns The suggested specification
+ */
+function getDefaultSweepSpec(slider: SliderModel): string {
+    switch (slider.type) {
+        case 'Numeric': {
+            const min = parseFloat(slider.min) || 0;
+            const max = parseFloat(slider.max) || 1;
+            return [min, parseFloat(((min + max) / 2).toFixed(10)), max].join(', ');
+        }
+        case 'MultiSelect':
+            return (slider.options || []).filter(o => o.trim() !== '').join(', ');
+        case 'Dropdown':
+            return (slider.dropdownOptions || []).filter(o => o.key.trim() !== '').map(o => o.key).join(', ');
+        case 'Boolean':
+        case 'Checkbox':
+            return 'true, false';
+        default:
+            return '';
+    }
+}
+
+/**
+ * Waits for the generation triggered by a swipe to finish.
+ * @returns True if a generation ran to completion, false if it was stopped, never started or timed out
+ */
+function waitForSweepGeneration(): Promise<boolean> {
+    return new Promise((resolve) => {
+        let started = false;
+        const onStarted = () => {
+            started = true;
+        };
+        const finish = (completed: boolean) => {
+            clearTimeout(timeout);
+            clearTimeout(overallTimeout);
+            eventSource.removeListener(event_types.GENERATION_STARTED, onStarted);
+            eventSource.removeListener(event_types.GENERATION_ENDED, onEnded);
+            eventSource.removeListener(event_types.GENERATION_STOPPED, onStopped);
+            resolve(completed);
+        };
+        const onEnded = () => finish(true);
+        const onStopped = () => finish(false);
+        const timeout = setTimeout(() => {
+            if (!started) finish(false);
+        }, SWEEP_START_TIMEOUT);
+        const overallTimeout = setTimeout(() => {
+            console.warn('[SliderMacros] Sweep generation timed out');
+            finish(false);
+        }, SWEEP_GENERATION_TIMEOUT);
+
+        eventSource.on(event_types.GENERATION_STARTED, onStarted);
+        eventSource.on(event_types.GENERATION_ENDED, onEnded);
+        eventSource.on(event_types.GENERATION_STOPPED, onStopped);
+    });
+}
+
+/**
+ * Generates one swipe of the last reply per value, setting the slider through the normal update path first.
+ * Each swipe is stamped with the value it used; the slider returns to its original value afterwards.
+ * Stopping a generation ends the sweep.
+ * @param settings - Extension settings containing slider collections
+ * @param slider - The slider to sweep
+ * @param values - The values to generate with
+ * @returns The number of swipes generated
+ */
+async function runParameterSweep(settings: ExtensionSettings, slider: SliderModel, values: SliderModel['value'][]): Promise<number> {
+    if (sweepInProgress) {
+        toastr.warning('A sweep is already running.');
+        return 0;
+    }
+
+    const { chat } = SillyTavern.getContext();
+    const lastMessage = chat?.[chat.length - 1];
+    if (!lastMessage || lastMessage.is_user || lastMessage.is_system) {
+        toastr.warning('The last message must be a reply to generate swipes for.');
+        return 0;
+    }
+    if ((lastMessage.swipe_id ?? 0) < (lastMessage.swipes?.length ?? 1) - 1) {
+        toastr.warning('Go to the last swipe of the reply before starting a sweep.');
+        return 0;
+    }
+
+    endPendingUserEdit(settings);
+    sweepInProgress = true;
+    const originalValue = slider.value;
+    let generated = 0;
+    try {
+        for (const value of values) {
+            applySliderValue(settings, slider, value);
+            activeSweepLabel = `${slider.name} = ${createSliderValueHandler(slider)()}`;
+
+            const finished = waitForSweepGeneration();
+            $('#chat .last_mes .swipe_right').trigger('click');
+            if (!await finished) {
+                break;
+            }
+            generated++;
+        }
+    } finally {
+        activeSweepLabel = null;
+        sweepInProgress = false;
+        applySliderValue(settings, slider, originalValue);
+    }
+
+    if (generated < values.length) {
+        toastr.info(`Sweep ended after ${generated} of ${values.length} swipes.`);
+    } else {
+        toastr.success(`Generated ${generated} swipes for "${slider.name}".`);
+    }
+    return generated;
+}
+
+/**
+ * Asks for the values to sweep a slider across, then runs the sweep.
+ * @param settings - Extension settings containing slider collections
+ * @param slider - The slider to sweep
+ */
+async function promptParameterSweep(settings: ExtensionSettings, slider: SliderModel): Promise<void> {
+    const spec = await Popup.show.input(
+        `Sweep "${slider.name}"`,
+        'Generate one swipe per value. Enter values separated by commas' + (slider.type === 'Numeric' ? ', or a range like 0.2..0.8:0.3' : '') + ':',
+        getDefaultSweepSpec(slider),
+    );
+    if (!spec) {
+        return;
+    }
+
+    const values = parseSweepValues(slider, spec);
+    if (values) {
+        await runParameterSweep(settings, slider, values);
+    }
+}
+
+// ============================================================================
+// End Parameter Sweep
+// ============================================================================
+
+// ============================================================================
+// Slash Commands
+// ============================================================================
+
+/**
+ * Registers the /slider-* family of slash commands for reading and changing slider values from STscript.
+ * @param settings - Extension settings containing slider collections
+ */
+function registerSlashCommands(settings: ExtensionSettings): void {
+    if (!SlashCommandParser || !SlashCommand) {
+        console.warn('[SliderMacros] Slash command API not available, skipping command registration');
+        return;
+    }
+
+    const nameArgument = () => SlashCommandNamedArgument.fromProps({
+        name: 'name',
+        description: 'Macro name, variable name or display name of the slider',
+        typeList: [ARGUMENT_TYPE.STRING],
+        isRequired: true,
+    });
+
+    // Resolves the target slider in the active collection, warning the user if it can't be found
+    const resolveSlider = (name: unknown): SliderModel | null => {
+        const activeCollection = settings.collections.find(c => c.active);
+        if (!activeCollection) {
+            toastr.warning('No active slider collection.');
+            return null;
+        }
+        const slider = findSlider(activeCollection, String(name ?? ''));
+        if (!slider) {
+            toastr.warning(`Slider "${name}" not found in collection "${activeCollection.name}".`);
+            return null;
         }
+        return slider;
+    };
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-get',
+        callback: (args: Record<string, unknown>) => {
+            const slider = resolveSlider(args.name);
+            if (!slider) return '';
+            const asOutput = parseBooleanLike(String(args.output ?? 'false')) === true;
+            const activeCollection = settings.collections.find(c => c.active);
+            return asOutput ? createSliderMacroHandler(slider, activeCollection)() : String(slider.value);
+        },
+        returns: 'the slider value',
+        namedArgumentList: [
+            nameArgument(),
+            SlashCommandNamedArgument.fromProps({
+                name: 'output',
+                description: 'Return the macro output instead of the stored value',
+                typeList: [ARGUMENT_TYPE.BOOLEAN],
+                defaultValue: 'false',
+            }),
+        ],
+        helpString: 'Gets the value of a slider in the active collection. Example: <code>/slider-get name=temp</code>',
+    }));
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-set',
+        callback: (args: Record<string, unknown>, value: unknown) => {
+            const slider = resolveSlider(args.name);
+            if (!slider) return '';
+            const parsed = parseSliderValue(slider, String(value ?? ''));
+            if (parsed === null) {
+                toastr.warning(`Invalid value "${value}" for ${slider.type} slider "${slider.name}".`);
+                return '';
+            }
+            applySliderValue(settings, slider, parsed);
+            return String(slider.value);
+        },
+        returns: 'the new slider value',
+        namedArgumentList: [nameArgument()],
+        unnamedArgumentList: [
+            SlashCommandArgument.fromProps({
+                description: 'The new value (number, true/false, option text or index, dropdown key, or hex color)',
+                typeList: [ARGUMENT_TYPE.STRING, ARGUMENT_TYPE.NUMBER, ARGUMENT_TYPE.BOOLEAN],
+                isRequired: true,
+            }),
+        ],
+        helpString: 'Sets the value of a slider in the active collection. Numeric values are clamped to the slider bounds. Example: <code>/slider-set name=temp 0.7</code>',
+    }));
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-sweep',
+        callback: async (args: Record<string, unknown>, value: unknown) => {
+            const slider = resolveSlider(args.name);
+            if (!slider) return '';
+            const values = parseSweepValues(slider, String(value ?? '') || getDefaultSweepSpec(slider));
+            if (!values) return '';
+            return String(await runParameterSweep(settings, slider, values));
+        },
+        returns: 'the number of swipes generated',
+        namedArgumentList: [nameArgument()],
+        unnamedArgumentList: [
+            SlashCommandArgument.fromProps({
+                description: 'Comma separated values, or a range from..to[:step] for Numeric sliders (defaults to min, middle, max or every option)',
+                typeList: [ARGUMENT_TYPE.STRING],
+                isRequired: false,
+            }),
+        ],
+        helpString: 'Generates one swipe of the last reply per value of a slider, labelling each swipe with its value. Example: <code>/slider-sweep name=temp 0.2, 0.5, 0.8</code>',
+    }));
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-turn',
+        callback: (_args: Record<string, unknown>, value: unknown) => {
+            const { chatId, chatMetadata, saveMetadataDebounced, saveMetadata } = SillyTavern.getContext();
+            if (value !== undefined && String(value).trim() !== '') {
+                const turn = parseInt(String(value), 10);
+                if (isNaN(turn) || turn < 0 || !chatId) {
+                    toastr.warning('The turn must be a whole number of 0 or more, in an open chat.');
+                    return '';
+                }
+                chatMetadata[MODULE_NAME] = chatMetadata[MODULE_NAME] || {};
+                chatMetadata[MODULE_NAME].turn = turn;
+                (saveMetadataDebounced ?? saveMetadata)?.();
+            }
+            return String(getCurrentTurn());
+        },
+        returns: 'the current turn number',
+        unnamedArgumentList: [
+            SlashCommandArgument.fromProps({
+                description: 'Sets the turn number',
+                typeList: [ARGUMENT_TYPE.NUMBER],
+                isRequired: false,
+            }),
+        ],
+        helpString: 'Gets (or sets) the chat\'s turn number used by turn-based slider automation. Example: <code>/slider-turn 0</code>',
+    }));
+
+    const registerStepCommand = (name: string, direction: 1 | -1) => {
+        SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+            name,
+            callback: (args: Record<string, unknown>) => {
+                const slider = resolveSlider(args.name);
+                if (!slider) return '';
+                const amount = args.by !== undefined && args.by !== '' ? Number(args.by) : undefined;
+                if (amount !== undefined && isNaN(amount)) {
+                    toastr.warning(`Invalid step amount "${args.by}".`);
+                    return '';
+                }
+                const stepped = stepSliderValue(slider, direction, amount);
+                if (stepped === null) {
+                    toastr.warning(`Slider "${slider.name}" (${slider.type}) cannot be stepped.`);
+                    return '';
+                }
+                applySliderValue(settings, slider, stepped);
+                return String(slider.value);
+            },
+            returns: 'the new slider value',
+            namedArgumentList: [
+                nameArgument(),
+                SlashCommandNamedArgument.fromProps({
+                    name: 'by',
+                    description: 'Step size for Numeric sliders (defaults to the slider step)',
+                    typeList: [ARGUMENT_TYPE.NUMBER],
+                }),
+            ],
+            helpString: `${direction === 1 ? 'Increments' : 'Decrements'} a Numeric slider by its step, or moves a MultiSelect/Dropdown slider to the ${direction === 1 ? 'next' : 'previous'} option. Example: <code>/${name} name=temp</code>`,
+        }));
+    };
+    registerStepCommand('slider-inc', 1);
+    registerStepCommand('slider-dec', -1);
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-reset',
+        callback: (args: Record<string, unknown>) => {
+            const slider = resolveSlider(args.name);
+            if (!slider) return '';
+            applySliderValue(settings, slider, getSliderDefaultValue(slider));
+            return String(slider.value);
+        },
+        returns: 'the new slider value',
+        namedArgumentList: [nameArgument()],
+        helpString: 'Resets a slider in the active collection to its default value. Example: <code>/slider-reset name=temp</code>',
+    }));
+
+    SlashCommandParser.addCommandObject(SlashCommand.fromProps({
+        name: 'slider-toggle',
+        callback: (args: Record<string, unknown>) => {
+            const slider = resolveSlider(args.name);
+            if (!slider) return '';
+            if (slider.type === 'Boolean') {
+                applySliderValue(settings, slider, slider.value ? 0 : 1);
+            } else if (slider.type === 'Checkbox') {
+                applySliderValue(settings, slider, slider.value !== true);
+            } else {
+                toastr.warning(`Slider "${slider.name}" (${slider.type}) cannot be toggled.`);
+                return '';
+            }
+            return String(slider.value);
+        },
+        returns: 'the new slider value',
+        namedArgumentList: [nameArgument()],
+        helpString: 'Flips a Boolean or Checkbox slider in the active collection. Example: <code>/slider-toggle name=nsfw</code>',
+    }));
+}
+
+// ============================================================================
+// End Slash Commands
+// ============================================================================
+
+// Preset binding event handler without the chat completion body append stuff.
+function setupEventHandlers(settings: ExtensionSettings): void {
+    const onPresetChanged = (delay: number = 500) => {
+        applyCollectionBindings(settings);
         // Re-render the completions sliders to reflect the new collection or restore valid UI
         setTimeout(() => {
             renderCompletionSliders(settings);
+            checkEmbeddedCollection(settings, 'preset').catch(e => console.error('[SliderMacros] Failed to check the preset for an embedded collection:', e));
         }, delay);
     };
 
@@ -3022,14 +8335,52 @@ function setupEventHandlers(settings: ExtensionSettings): void {
     eventSource.on(event_types.PRESET_CHANGED, () => onPresetChanged(500));
     eventSource.on(event_types.MAIN_API_CHANGED, () => onPresetChanged(3000));
 
-    // CHAT_CHANGED event: Force sync slider values to variables when switching chats
+    // Persona and connection profile bindings (these events don't exist in older SillyTavern versions)
+    for (const event of [event_types.PERSONA_CHANGED, event_types.CONNECTION_PROFILE_LOADED]) {
+        if (event) {
+            eventSource.on(event, () => applyCollectionBindings(getSettings()));
+        }
+    }
+
+    // Roll per generation sliders get their new values first, so the injected block and the stamp use them.
+    // Dry runs (token counting) and quiet generations (other extensions' background prompts) don't roll.
+    eventSource.on(event_types.GENERATION_AFTER_COMMANDS, (type: string, _options: unknown, dryRun: boolean) => {
+        if (!dryRun && type !== 'quiet') {
+            rollRandomizedSliders(getSettings());
+        }
+    });
+
+    // Rebuild the injected prompt block right before generation so Computed sliders and nested macros are current
+    eventSource.on(event_types.GENERATION_AFTER_COMMANDS, () => updatePromptInjection(getSettings()));
+
+    // Each user message starts a turn: run automation first, then keyword/regex triggers (which take precedence),
+    // so the reply is generated with the updated values
+    eventSource.on(event_types.MESSAGE_SENT, (messageId: number) => {
+        const currentSettings = getSettings();
+        advanceTurn(currentSettings);
+        applyMessageTriggers(currentSettings, Number(messageId));
+    });
+
+    // Let the model drive sliders through directives in its replies (opt-in per collection)
+    eventSource.on(event_types.MESSAGE_RECEIVED, (messageId: number) => applyMessageDirectives(getSettings(), Number(messageId)));
+
+    // Parameter-mode sliders: merge their values into the outgoing request body
+    eventSource.on(event_types.CHAT_COMPLETION_SETTINGS_READY, (data: ChatCompletionRequestData) => applySliderParameters(getSettings(), data));
+    eventSource.on(event_types.TEXT_COMPLETION_SETTINGS_READY, (data: TextCompletionRequestData) => applySliderParameters(getSettings(), data));
+
+    // CHAT_CHANGED event: Restore per-chat/per-character values, then force sync slider values to variables
     // This ensures variables are properly set with slider values in the new chat context
     eventSource.on(event_types.CHAT_CHANGED, () => {
-        console.log('[SliderMacros] Chat changed - force syncing sliders to variables');
+        console.log('[SliderMacros] Chat changed - restoring scoped values and force syncing sliders to variables');
         // Small delay to ensure chat context is fully loaded
         setTimeout(() => {
             const currentSettings = getSettings();
+            endPendingUserEdit(currentSettings);
+            // Switch to the collection bound to the new character/group first, so its values are the ones restored
+            applyCollectionBindings(currentSettings);
+            restoreScopedValues(currentSettings);
             forceSyncAllSliders(currentSettings, 'write');
+            checkEmbeddedCollection(currentSettings, 'character').catch(e => console.error('[SliderMacros] Failed to check the character for an embedded collection:', e));
             // Also re-render sliders to reflect any variable changes
             renderCompletionSliders(currentSettings);
         }, 100);
@@ -3067,6 +8418,10 @@ const observer = new MutationObserver(debounce(() => {
     addSettingsControls(settings);
     renderCompletionSliders(settings);
     setupEventHandlers(settings);
+    registerSlashCommands(settings);
+    setupGenerationStamps();
+    purgeExpiredTrash(settings);
+    setupHistory(settings);
     observer.observe(document.body, { childList: true, subtree: true, attributes: true, attributeFilter: ['style', 'class', 'hidden'] });
     saveSettingsDebounced();
 })();